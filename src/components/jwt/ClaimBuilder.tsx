@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  CLAIM_PRESETS,
+  TIME_CLAIMS,
+  buildPresetPayload,
+  resolveRelativeTime,
+  type ClaimPreset,
+  type TimeClaim,
+} from '@/lib/jwt-claims';
+import {
+  formatTimestamp,
+  type JwtHeader,
+  type JwtPayload,
+} from '@/lib/jwt-utils';
+
+interface ClaimBuilderProps {
+  payloadText: string;
+  onPayloadTextChange: (text: string) => void;
+  onApplyPreset: (header: Omit<JwtHeader, 'alg'>, payload: JwtPayload) => void;
+}
+
+const TIME_CLAIM_LABELS: Record<TimeClaim, string> = {
+  iat: 'Issued At (iat)',
+  nbf: 'Not Before (nbf)',
+  exp: 'Expiration (exp)',
+};
+
+const EMPTY_TIMES: Record<TimeClaim, string> = { iat: '', nbf: '', exp: '' };
+
+/**
+ * Fills the encoder from a claim preset and sets time claims with relative inputs
+ */
+export function ClaimBuilder({
+  payloadText,
+  onPayloadTextChange,
+  onApplyPreset,
+}: ClaimBuilderProps) {
+  const [presetId, setPresetId] = useState('');
+  const [times, setTimes] = useState(EMPTY_TIMES);
+
+  const applyPreset = (preset: ClaimPreset) => {
+    setPresetId(preset.id);
+    setTimes({ ...EMPTY_TIMES, ...preset.times });
+    onApplyPreset(preset.header, buildPresetPayload(preset));
+  };
+
+  const updateTime = (claim: TimeClaim, value: string) => {
+    setTimes(current => ({ ...current, [claim]: value }));
+
+    const timestamp = resolveRelativeTime(value);
+    if (value.trim() && timestamp === undefined) {
+      return;
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(payloadText);
+    } catch {
+      return;
+    }
+    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+      return;
+    }
+
+    const updated = { ...(payload as JwtPayload) };
+    if (timestamp === undefined) {
+      delete updated[claim];
+    } else {
+      updated[claim] = timestamp;
+    }
+    onPayloadTextChange(JSON.stringify(updated, null, 2));
+  };
+
+  const selectedPreset = CLAIM_PRESETS.find(preset => preset.id === presetId);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Preset</Label>
+        <Select
+          value={presetId}
+          onValueChange={id => {
+            const preset = CLAIM_PRESETS.find(item => item.id === id);
+            if (preset) applyPreset(preset);
+          }}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Choose a token profile" />
+          </SelectTrigger>
+          <SelectContent>
+            {CLAIM_PRESETS.map(preset => (
+              <SelectItem key={preset.id} value={preset.id}>
+                {preset.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {selectedPreset && (
+          <p className="text-xs text-muted-foreground">
+            {selectedPreset.description}
+          </p>
+        )}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        {TIME_CLAIMS.map(claim => {
+          const value = times[claim];
+          const timestamp = resolveRelativeTime(value);
+          const invalid = value.trim() !== '' && timestamp === undefined;
+          let hint = 'Not set';
+          if (invalid) {
+            hint = 'Use now, +15m, -1h, +7d or seconds since the epoch';
+          } else if (timestamp !== undefined) {
+            hint = formatTimestamp(timestamp);
+          }
+
+          return (
+            <div key={claim} className="space-y-2">
+              <Label htmlFor={`claim-${claim}`}>
+                {TIME_CLAIM_LABELS[claim]}
+              </Label>
+              <Input
+                id={`claim-${claim}`}
+                value={value}
+                onChange={e => updateTime(claim, e.target.value)}
+                placeholder={claim === 'exp' ? '+15m' : 'now'}
+                className={`font-mono ${invalid ? 'border-red-500' : ''}`}
+              />
+              <p
+                className={`text-xs ${invalid ? 'text-red-600 dark:text-red-400' : 'text-muted-foreground'}`}
+              >
+                {hint}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { CheckCircle, ListChecks, MinusCircle, XCircle } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import type { ClaimsValidationResult } from '@/lib/jwt-utils';
+
+export interface ClaimsPolicyForm {
+  issuer: string;
+  audience: string;
+  requiredClaims: string;
+  clockSkewSeconds: string;
+  maxTokenAgeSeconds: string;
+}
+
+interface ClaimsValidationProps {
+  form: ClaimsPolicyForm;
+  result: ClaimsValidationResult | null;
+  onChange: (field: keyof ClaimsPolicyForm, value: string) => void;
+}
+
+/**
+ * Edits the claims policy and lists the result of each check against it
+ */
+export function ClaimsValidation({
+  form,
+  result,
+  onChange,
+}: ClaimsValidationProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <ListChecks className="h-4 w-4" />
+          Claims Validation
+        </CardTitle>
+        <CardDescription>
+          Check the time claims, issuer, audience and required claims against
+          your policy. Separate multiple values with commas.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="policy-issuer">Expected Issuer</Label>
+            <Input
+              id="policy-issuer"
+              value={form.issuer}
+              onChange={e => onChange('issuer', e.target.value)}
+              placeholder="https://issuer.example.com"
+              className="font-mono"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="policy-audience">Expected Audience</Label>
+            <Input
+              id="policy-audience"
+              value={form.audience}
+              onChange={e => onChange('audience', e.target.value)}
+              placeholder="api://default"
+              className="font-mono"
+            />
+          </div>
+          <div className="space-y-2 sm:col-span-2">
+            <Label htmlFor="policy-required">Required Claims</Label>
+            <Input
+              id="policy-required"
+              value={form.requiredClaims}
+              onChange={e => onChange('requiredClaims', e.target.value)}
+              placeholder="sub, scope"
+              className="font-mono"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="policy-skew">Clock Skew (seconds)</Label>
+            <Input
+              id="policy-skew"
+              type="number"
+              min={0}
+              value={form.clockSkewSeconds}
+              onChange={e => onChange('clockSkewSeconds', e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="policy-max-age">Max Token Age (seconds)</Label>
+            <Input
+              id="policy-max-age"
+              type="number"
+              min={0}
+              value={form.maxTokenAgeSeconds}
+              onChange={e => onChange('maxTokenAgeSeconds', e.target.value)}
+              placeholder="No limit"
+            />
+          </div>
+        </div>
+
+        {result ? (
+          <ul className="space-y-2">
+            {result.findings.map((finding, index) => (
+              <li
+                key={`${finding.claim}-${finding.check}-${index}`}
+                className="flex items-start gap-2 p-2 border rounded text-sm"
+              >
+                {finding.status === 'pass' ? (
+                  <CheckCircle className="h-4 w-4 mt-0.5 shrink-0 text-green-600 dark:text-green-400" />
+                ) : finding.status === 'fail' ? (
+                  <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-red-600 dark:text-red-400" />
+                ) : (
+                  <MinusCircle className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                )}
+                <div>
+                  <p className="font-medium">
+                    {finding.check}{' '}
+                    <span className="font-mono text-muted-foreground">
+                      ({finding.claim})
+                    </span>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {finding.message}
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Decode a token to validate its claims.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
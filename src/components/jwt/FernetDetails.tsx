@@ -0,0 +1,66 @@
+import { Lock, Unlock } from 'lucide-react';
+import { formatTimestamp } from '@/lib/jwt-utils';
+import type {
+  DecodedFernet,
+  FernetVerificationResult,
+} from '@/lib/token-formats';
+
+interface FernetDetailsProps {
+  decoded: DecodedFernet;
+  verification: FernetVerificationResult | null;
+}
+
+/**
+ * Shows the timestamp, IV and decrypted plaintext of a Fernet token
+ */
+export function FernetDetails({ decoded, verification }: FernetDetailsProps) {
+  const fields = [
+    { name: 'Version', value: `0x${decoded.version.toString(16)}` },
+    { name: 'Timestamp', value: formatTimestamp(decoded.timestamp) },
+    { name: 'Initialization Vector', value: decoded.iv },
+    { name: 'Ciphertext', value: `${decoded.ciphertextLength} bytes` },
+    { name: 'HMAC', value: decoded.hmac },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="p-3 bg-muted/50 rounded-md text-sm">
+        <p className="font-medium">Fernet (AES-128-CBC + HMAC-SHA256)</p>
+        <p className="text-muted-foreground text-xs mt-1">
+          Only the timestamp and IV are readable without the key.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        {fields.map(field => (
+          <div
+            key={field.name}
+            className="flex justify-between gap-4 p-2 border rounded text-sm"
+          >
+            <span className="text-muted-foreground">{field.name}:</span>
+            <span className="font-mono truncate">{field.value}</span>
+          </div>
+        ))}
+      </div>
+
+      {verification?.isValid ? (
+        <div className="space-y-2">
+          <h3 className="flex items-center gap-2 text-sm font-medium">
+            <Unlock className="h-4 w-4" />
+            Decrypted Plaintext
+          </h3>
+          <div className="p-3 border rounded-md bg-muted/50">
+            <p className="font-mono text-sm break-all whitespace-pre-wrap">
+              {verification.plaintext}
+            </p>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center gap-2 p-3 bg-muted/50 rounded-md text-sm text-muted-foreground">
+          <Lock className="h-4 w-4" />
+          Enter the Fernet key to check the HMAC and reveal the plaintext.
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { Copy, Lock, Unlock } from 'lucide-react';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import {
+  oneDark,
+  oneLight,
+} from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { Button } from '@/components/ui/button';
+import {
+  getAlgorithmDescription,
+  type DecodedJwe,
+  type JweDecryptionResult,
+} from '@/lib/jwt-utils';
+
+interface JweDetailsProps {
+  decoded: DecodedJwe;
+  decryption: JweDecryptionResult | null;
+  isDarkMode: boolean;
+  onCopy: (text: string) => void;
+  onOpenNestedToken: (token: string) => void;
+}
+
+/**
+ * Shows the protected header, parts and decrypted content of a JWE token
+ */
+export function JweDetails({
+  decoded,
+  decryption,
+  isDarkMode,
+  onCopy,
+  onOpenNestedToken,
+}: JweDetailsProps) {
+  const parts = [
+    { name: 'Encrypted Key', value: decoded.encryptedKey },
+    { name: 'Initialization Vector', value: decoded.iv },
+    { name: 'Ciphertext', value: decoded.ciphertext },
+    { name: 'Authentication Tag', value: decoded.tag },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium">Protected Header</h3>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onCopy(JSON.stringify(decoded.header, null, 2))}
+        >
+          <Copy className="h-3 w-3 mr-1" />
+          Copy
+        </Button>
+      </div>
+
+      <div className="border rounded-md overflow-hidden">
+        <SyntaxHighlighter
+          language="json"
+          style={isDarkMode ? oneDark : oneLight}
+          customStyle={{
+            margin: 0,
+            fontSize: '0.875rem',
+            maxHeight: '300px',
+          }}
+        >
+          {JSON.stringify(decoded.header, null, 2)}
+        </SyntaxHighlighter>
+      </div>
+
+      <div className="grid gap-2 sm:grid-cols-2">
+        <div className="p-3 bg-muted/50 rounded-md text-sm">
+          <p className="font-medium">Key Management: {decoded.header.alg}</p>
+          <p className="text-muted-foreground text-xs mt-1">
+            {getAlgorithmDescription(decoded.header.alg)}
+          </p>
+        </div>
+        <div className="p-3 bg-muted/50 rounded-md text-sm">
+          <p className="font-medium">
+            Content Encryption: {decoded.header.enc}
+          </p>
+          <p className="text-muted-foreground text-xs mt-1">
+            {getAlgorithmDescription(decoded.header.enc)}
+          </p>
+        </div>
+        {decoded.header.kid && (
+          <div className="p-3 bg-muted/50 rounded-md text-sm sm:col-span-2">
+            <p className="font-medium">Key ID</p>
+            <p className="font-mono text-xs mt-1 break-all">
+              {decoded.header.kid}
+            </p>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {parts.map(part => (
+          <div
+            key={part.name}
+            className="flex justify-between gap-4 p-2 border rounded text-sm"
+          >
+            <span className="text-muted-foreground">{part.name}:</span>
+            <span className="font-mono truncate">
+              {part.value ? `${part.value.length} characters` : 'Empty'}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {decryption?.isValid ? (
+        <div className="space-y-2">
+          <h3 className="flex items-center gap-2 text-sm font-medium">
+            <Unlock className="h-4 w-4" />
+            Decrypted Content
+          </h3>
+          {decryption.payload ? (
+            <div className="border rounded-md overflow-hidden">
+              <SyntaxHighlighter
+                language="json"
+                style={isDarkMode ? oneDark : oneLight}
+                customStyle={{
+                  margin: 0,
+                  fontSize: '0.875rem',
+                  maxHeight: '300px',
+                }}
+              >
+                {JSON.stringify(decryption.payload, null, 2)}
+              </SyntaxHighlighter>
+            </div>
+          ) : (
+            <div className="p-3 border rounded-md bg-muted/50">
+              <p className="font-mono text-sm break-all">
+                {decryption.plaintext}
+              </p>
+            </div>
+          )}
+          {decryption.nestedToken && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onOpenNestedToken(decryption.nestedToken!)}
+            >
+              Decode nested JWT
+            </Button>
+          )}
+        </div>
+      ) : (
+        <div className="flex items-center gap-2 p-3 bg-muted/50 rounded-md text-sm text-muted-foreground">
+          <Lock className="h-4 w-4" />
+          Enter the decryption key to reveal the encrypted content.
+        </div>
+      )}
+    </div>
+  );
+}
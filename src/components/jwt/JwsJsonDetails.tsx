@@ -0,0 +1,149 @@
+import { Copy } from 'lucide-react';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import {
+  oneDark,
+  oneLight,
+} from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import type {
+  DecodedJwsJson,
+  JwsJsonVerificationResult,
+  JwsSignatureResult,
+} from '@/lib/jwt-utils';
+
+interface JwsJsonDetailsProps {
+  decoded: DecodedJwsJson;
+  verification: JwsJsonVerificationResult | null;
+  isDarkMode: boolean;
+  onCopy: (text: string) => void;
+}
+
+const STATUS_BADGES: Record<
+  JwsSignatureResult['status'],
+  { label: string; variant: 'default' | 'destructive' | 'secondary' }
+> = {
+  verified: { label: 'Verified', variant: 'default' },
+  failed: { label: 'Failed', variant: 'destructive' },
+  skipped: { label: 'No Key', variant: 'secondary' },
+};
+
+/**
+ * Shows the payload and every signature of a JWS in JSON serialization
+ */
+export function JwsJsonDetails({
+  decoded,
+  verification,
+  isDarkMode,
+  onCopy,
+}: JwsJsonDetailsProps) {
+  const highlighterStyle = {
+    margin: 0,
+    fontSize: '0.875rem',
+    maxHeight: '300px',
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium">Payload</h3>
+        {decoded.payload && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onCopy(JSON.stringify(decoded.payload, null, 2))}
+          >
+            <Copy className="h-3 w-3 mr-1" />
+            Copy
+          </Button>
+        )}
+      </div>
+
+      {decoded.payload ? (
+        <div className="border rounded-md overflow-hidden">
+          <SyntaxHighlighter
+            language="json"
+            style={isDarkMode ? oneDark : oneLight}
+            customStyle={highlighterStyle}
+          >
+            {JSON.stringify(decoded.payload, null, 2)}
+          </SyntaxHighlighter>
+        </div>
+      ) : decoded.rawPayload !== undefined ? (
+        <div className="p-3 border rounded-md bg-muted/50">
+          <p className="font-mono text-sm break-all whitespace-pre-wrap">
+            {decoded.rawPayload}
+          </p>
+        </div>
+      ) : (
+        <p className="p-3 bg-muted/50 rounded-md text-sm text-muted-foreground">
+          The payload is detached from this document. Supply it with the
+          verification keys.
+        </p>
+      )}
+
+      <h3 className="text-sm font-medium">
+        Signatures ({decoded.signatures.length})
+      </h3>
+      <ul className="space-y-3">
+        {decoded.signatures.map((signature, index) => {
+          const result = verification?.signatures[index];
+          const status = result ? STATUS_BADGES[result.status] : undefined;
+
+          return (
+            <li key={index} className="space-y-2 border rounded-md p-3">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium">
+                  Signature #{index + 1}
+                </span>
+                {status && (
+                  <Badge variant={status.variant}>{status.label}</Badge>
+                )}
+              </div>
+
+              <p className="text-xs text-muted-foreground">Protected header</p>
+              <div className="border rounded-md overflow-hidden">
+                <SyntaxHighlighter
+                  language="json"
+                  style={isDarkMode ? oneDark : oneLight}
+                  customStyle={highlighterStyle}
+                >
+                  {JSON.stringify(signature.protectedHeader, null, 2)}
+                </SyntaxHighlighter>
+              </div>
+
+              {signature.header && (
+                <>
+                  <p className="text-xs text-muted-foreground">
+                    Unprotected header
+                  </p>
+                  <div className="border rounded-md overflow-hidden">
+                    <SyntaxHighlighter
+                      language="json"
+                      style={isDarkMode ? oneDark : oneLight}
+                      customStyle={highlighterStyle}
+                    >
+                      {JSON.stringify(signature.header, null, 2)}
+                    </SyntaxHighlighter>
+                  </div>
+                </>
+              )}
+
+              {result?.status === 'verified' &&
+                result.keyIndex !== undefined && (
+                  <p className="text-xs text-muted-foreground">
+                    Verified with key #{result.keyIndex + 1}
+                  </p>
+                )}
+              {result?.reason && (
+                <p className="text-xs text-red-600 dark:text-red-400">
+                  {result.reason}
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
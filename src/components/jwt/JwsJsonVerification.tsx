@@ -0,0 +1,113 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import type {
+  DecodedJwsJson,
+  JwsJsonVerificationResult,
+} from '@/lib/jwt-utils';
+
+interface JwsJsonVerificationProps {
+  decoded: DecodedJwsJson;
+  keys: string[];
+  onKeysChange: (keys: string[]) => void;
+  detachedPayload: string;
+  onDetachedPayloadChange: (payload: string) => void;
+  verification: JwsJsonVerificationResult | null;
+}
+
+/**
+ * Collects the keys used to verify each signature of a JWS JSON document
+ */
+export function JwsJsonVerification({
+  decoded,
+  keys,
+  onKeysChange,
+  detachedPayload,
+  onDetachedPayloadChange,
+  verification,
+}: JwsJsonVerificationProps) {
+  const updateKey = (index: number, value: string) =>
+    onKeysChange(keys.map((key, i) => (i === index ? value : key)));
+
+  const verifiedCount =
+    verification?.signatures.filter(result => result.status === 'verified')
+      .length ?? 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">
+          JWS Signature Verification (Optional)
+        </CardTitle>
+        <CardDescription>
+          Each signature is checked against every key that fits its algorithm
+          and kid. Enter HMAC secrets, public keys or JWKS documents below:
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {keys.map((key, index) => (
+          <div key={index} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor={`jws-key-${index}`}>Key #{index + 1}</Label>
+              {keys.length > 1 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    onKeysChange(keys.filter((_, i) => i !== index))
+                  }
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+            <Textarea
+              id={`jws-key-${index}`}
+              value={key}
+              onChange={e => updateKey(index, e.target.value)}
+              placeholder="Secret, SPKI PEM, JWK or JWKS"
+              rows={3}
+              className="font-mono text-sm"
+            />
+          </div>
+        ))}
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onKeysChange([...keys, ''])}
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Add key
+        </Button>
+
+        {decoded.detached && (
+          <div className="space-y-2">
+            <Label htmlFor="jws-detached-payload">Detached Payload</Label>
+            <Textarea
+              id="jws-detached-payload"
+              value={detachedPayload}
+              onChange={e => onDetachedPayloadChange(e.target.value)}
+              rows={4}
+              className="font-mono text-sm"
+            />
+          </div>
+        )}
+
+        {verification && (
+          <p className="text-sm text-muted-foreground">
+            {verifiedCount} of {decoded.signatures.length} signatures verified
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
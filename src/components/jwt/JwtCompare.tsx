@@ -0,0 +1,235 @@
+import { useState } from 'react';
+import { AlertCircle, ArrowLeftRight, Clock } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  decodeJwt,
+  diffJwts,
+  formatTimestamp,
+  getTimeRemaining,
+  getTokenAge,
+  getTokenLifetime,
+  isNumericDateClaim,
+  type ClaimDiff,
+} from '@/lib/jwt-utils';
+
+const CHANGE_STYLES: Record<ClaimDiff['change'], string> = {
+  added:
+    'bg-green-50 dark:bg-green-950/30 border-green-200 dark:border-green-800',
+  removed: 'bg-red-50 dark:bg-red-950/30 border-red-200 dark:border-red-800',
+  changed:
+    'bg-yellow-50 dark:bg-yellow-950/30 border-yellow-200 dark:border-yellow-800',
+  unchanged: '',
+};
+
+/**
+ * Formats a claim value for the diff table, rendering time claims as dates
+ * @param claim - The claim name
+ * @param value - The claim value
+ * @returns Display text for the value
+ */
+function formatClaimValue(claim: string, value: unknown): string {
+  if (value === undefined) {
+    return '—';
+  }
+  if (isNumericDateClaim(claim) && typeof value === 'number') {
+    return `${formatTimestamp(value)} (${value})`;
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Formats a signed duration in seconds using its largest whole unit
+ * @param seconds - The duration in seconds
+ * @returns Human-readable duration
+ */
+function formatDuration(seconds: number): string {
+  const sign = seconds < 0 ? '-' : '';
+  const value = Math.abs(seconds);
+
+  if (value < 60) {
+    return `${sign}${value} seconds`;
+  } else if (value < 3600) {
+    return `${sign}${Math.floor(value / 60)} minutes`;
+  } else if (value < 86400) {
+    return `${sign}${Math.floor(value / 3600)} hours`;
+  } else {
+    return `${sign}${Math.floor(value / 86400)} days`;
+  }
+}
+
+/**
+ * Decodes two tokens side by side and shows a claim-by-claim diff
+ */
+export function JwtCompare() {
+  const [beforeToken, setBeforeToken] = useState('');
+  const [afterToken, setAfterToken] = useState('');
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const before = beforeToken.trim() ? decodeJwt(beforeToken.trim()) : null;
+  const after = afterToken.trim() ? decodeJwt(afterToken.trim()) : null;
+  const diff =
+    before?.decoded && after?.decoded
+      ? diffJwts(before.decoded, after.decoded)
+      : null;
+  const visibleDiff = diff?.filter(
+    entry => showUnchanged || entry.change !== 'unchanged'
+  );
+
+  const beforeLifetime = before?.decoded
+    ? getTokenLifetime(before.decoded.payload)
+    : undefined;
+  const afterLifetime = after?.decoded
+    ? getTokenLifetime(after.decoded.payload)
+    : undefined;
+
+  const inputs = [
+    {
+      label: 'Before',
+      value: beforeToken,
+      onChange: setBeforeToken,
+      result: before,
+    },
+    {
+      label: 'After',
+      value: afterToken,
+      onChange: setAfterToken,
+      result: after,
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-6 lg:grid-cols-2">
+        {inputs.map(input => (
+          <Card key={input.label}>
+            <CardHeader>
+              <CardTitle className="text-base">{input.label} Token</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Textarea
+                value={input.value}
+                onChange={e => input.onChange(e.target.value)}
+                placeholder="eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+                rows={6}
+                className={`font-mono text-sm ${input.result?.error ? 'border-red-500' : input.result?.decoded ? 'border-green-500' : ''}`}
+              />
+
+              {input.result?.error && (
+                <div className="flex items-center gap-2 p-3 bg-red-50 dark:bg-red-950/30 border border-red-200 dark:border-red-800 rounded-md">
+                  <AlertCircle className="h-4 w-4 text-red-600 dark:text-red-400" />
+                  <span className="text-sm text-red-800 dark:text-red-200">
+                    {input.result.error}
+                  </span>
+                </div>
+              )}
+
+              {input.result?.decoded && (
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  <div className="p-2 border rounded">
+                    <p className="text-muted-foreground text-xs">
+                      Time remaining
+                    </p>
+                    <p>{getTimeRemaining(input.result.decoded.payload)}</p>
+                  </div>
+                  <div className="p-2 border rounded">
+                    <p className="text-muted-foreground text-xs">Token age</p>
+                    <p>{getTokenAge(input.result.decoded.payload)}</p>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {diff && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <div className="flex items-center gap-2 text-base">
+                <ArrowLeftRight className="h-4 w-4" />
+                Claim Differences
+              </div>
+              <div className="flex items-center gap-2">
+                <Label htmlFor="show-unchanged" className="text-sm">
+                  Show unchanged
+                </Label>
+                <Switch
+                  id="show-unchanged"
+                  checked={showUnchanged}
+                  onCheckedChange={setShowUnchanged}
+                />
+              </div>
+            </CardTitle>
+            <CardDescription>
+              Header and payload claims compared between the two tokens
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {beforeLifetime !== undefined && afterLifetime !== undefined && (
+              <div className="flex items-center gap-2 p-3 bg-muted/50 rounded-md text-sm">
+                <Clock className="h-4 w-4" />
+                <span>
+                  Lifetime {formatDuration(beforeLifetime)} →{' '}
+                  {formatDuration(afterLifetime)}
+                  {beforeLifetime !== afterLifetime &&
+                    ` (${afterLifetime > beforeLifetime ? '+' : ''}${formatDuration(afterLifetime - beforeLifetime)})`}
+                </span>
+              </div>
+            )}
+
+            {visibleDiff && visibleDiff.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground">
+                      <th className="p-2 font-medium">Claim</th>
+                      <th className="p-2 font-medium">Change</th>
+                      <th className="p-2 font-medium">Before</th>
+                      <th className="p-2 font-medium">After</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleDiff.map(entry => (
+                      <tr
+                        key={`${entry.section}.${entry.claim}`}
+                        className={`border-t ${CHANGE_STYLES[entry.change]}`}
+                      >
+                        <td className="p-2 font-mono">
+                          {entry.section}.{entry.claim}
+                        </td>
+                        <td className="p-2">
+                          <Badge variant="outline">{entry.change}</Badge>
+                        </td>
+                        <td className="p-2 font-mono text-xs break-all">
+                          {formatClaimValue(entry.claim, entry.before)}
+                        </td>
+                        <td className="p-2 font-mono text-xs break-all">
+                          {formatClaimValue(entry.claim, entry.after)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                The tokens carry identical claims.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
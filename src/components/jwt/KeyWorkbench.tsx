@@ -0,0 +1,251 @@
+import { useState } from 'react';
+import { AlertCircle, Copy, KeyRound } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  convertKey,
+  generateJwtKey,
+  getKeyAlgorithms,
+  RSA_MODULUS_LENGTHS,
+  type KeyMaterial,
+} from '@/lib/jwt-keys';
+
+interface KeyWorkbenchProps {
+  onCopy: (text: string) => void;
+  onUseKey: (key: KeyMaterial) => void;
+}
+
+/**
+ * Generates signing keys and converts them between PEM, JWK and JWKS
+ */
+export function KeyWorkbench({ onCopy, onUseKey }: KeyWorkbenchProps) {
+  const [alg, setAlg] = useState('ES256');
+  const [modulusLength, setModulusLength] = useState('2048');
+  const [input, setInput] = useState('');
+  const [key, setKey] = useState<KeyMaterial | null>(null);
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const generate = async () => {
+    setIsLoading(true);
+    try {
+      setKey(
+        await generateJwtKey(alg, {
+          modulusLength: parseInt(modulusLength, 10),
+        })
+      );
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate key');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const convert = async () => {
+    setIsLoading(true);
+    try {
+      const result = await convertKey(input);
+      setKey(result.key ?? null);
+      setError(result.error || '');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const formats = key
+    ? [
+        { label: 'HMAC Secret', value: key.secret },
+        {
+          label: 'HMAC Secret (base64url)',
+          value: key.secretHex && key.jwk.k,
+        },
+        { label: 'HMAC Secret (hex)', value: key.secretHex },
+        { label: 'Public Key (SPKI PEM)', value: key.publicPem },
+        { label: 'Private Key (PKCS#8 PEM)', value: key.privatePem },
+        {
+          label: key.kind === 'secret' ? 'JWK' : 'Public JWK',
+          value: JSON.stringify(key.jwk, null, 2),
+        },
+        {
+          label: 'Private JWK',
+          value: key.privateJwk && JSON.stringify(key.privateJwk, null, 2),
+        },
+        { label: 'JWKS', value: JSON.stringify(key.jwks, null, 2) },
+      ].filter(format => format.value)
+    : [];
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="h-4 w-4" />
+              Generate Key
+            </CardTitle>
+            <CardDescription>
+              Create an HMAC secret or an RSA, EC or Ed25519 key pair in the
+              browser with WebCrypto.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Algorithm</Label>
+                <Select value={alg} onValueChange={setAlg}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {getKeyAlgorithms().map(value => (
+                      <SelectItem key={value} value={value}>
+                        {value}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {/^(RS|PS)/.test(alg) && (
+                <div className="space-y-2">
+                  <Label>Key Size</Label>
+                  <Select
+                    value={modulusLength}
+                    onValueChange={setModulusLength}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RSA_MODULUS_LENGTHS.map(length => (
+                        <SelectItem key={length} value={String(length)}>
+                          {length} bits
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+            <Button onClick={generate} disabled={isLoading}>
+              {isLoading ? 'Working...' : 'Generate'}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Convert Key</CardTitle>
+            <CardDescription>
+              Paste a PKCS#8 or SPKI PEM, an X.509 certificate, a JWK, a JWKS
+              with one key or an HMAC secret.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Textarea
+              value={input}
+              onChange={e => setInput(e.target.value)}
+              placeholder="-----BEGIN PUBLIC KEY-----"
+              rows={8}
+              className="font-mono text-sm"
+            />
+            <Button
+              variant="outline"
+              onClick={convert}
+              disabled={!input.trim() || isLoading}
+            >
+              Convert
+            </Button>
+            {error && (
+              <div className="flex items-center gap-2 p-3 bg-red-50 dark:bg-red-950/30 border border-red-200 dark:border-red-800 rounded-md">
+                <AlertCircle className="h-4 w-4 text-red-600 dark:text-red-400" />
+                <span className="text-sm text-red-800 dark:text-red-200">
+                  {error}
+                </span>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Key Formats</CardTitle>
+          <CardDescription>
+            The RFC 7638 thumbprint is a stable key id for the "kid" header.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {key ? (
+            <>
+              <div className="flex items-center justify-between gap-2 p-3 bg-muted/50 rounded-md text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium">
+                    {key.alg} {key.kind} key
+                  </p>
+                  <p className="font-mono text-xs mt-1 break-all">
+                    Thumbprint: {key.thumbprint}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onCopy(key.thumbprint)}
+                >
+                  <Copy className="h-3 w-3" />
+                </Button>
+              </div>
+
+              {key.kind !== 'public' && (
+                <Button variant="outline" onClick={() => onUseKey(key)}>
+                  Use in encoder
+                </Button>
+              )}
+
+              {formats.map(format => (
+                <div key={format.label} className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>{format.label}</Label>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onCopy(format.value!)}
+                    >
+                      <Copy className="h-3 w-3 mr-1" />
+                      Copy
+                    </Button>
+                  </div>
+                  <Textarea
+                    value={format.value}
+                    readOnly
+                    rows={Math.min(format.value!.split('\n').length, 8)}
+                    className="font-mono text-xs"
+                  />
+                </div>
+              ))}
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Generate or convert a key to see it in every format.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, Layers } from 'lucide-react';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import {
+  oneDark,
+  oneLight,
+} from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  findNestedTokens,
+  isTokenExpired,
+  isTokenNotYetValid,
+  type Clock,
+  type NestedToken,
+} from '@/lib/jwt-utils';
+
+interface NestedTokensProps {
+  tokens: NestedToken[];
+  clock: Clock;
+  isDarkMode: boolean;
+  onOpenToken: (token: string) => void;
+}
+
+interface NestedTokenItemProps extends Omit<NestedTokensProps, 'tokens'> {
+  nested: NestedToken;
+  parentPath: string;
+}
+
+/**
+ * Describes whether a nested token is currently usable
+ * @param nested - The nested token
+ * @param clock - The clock used as the current time
+ * @returns Badge label and variant
+ */
+function getExpiryStatus(
+  nested: NestedToken,
+  clock: Clock
+): { label: string; variant: 'default' | 'destructive' | 'secondary' } {
+  const { payload } = nested.decoded;
+  if (isTokenExpired(payload, clock)) {
+    return { label: 'Expired', variant: 'destructive' };
+  }
+  if (isTokenNotYetValid(payload, clock)) {
+    return { label: 'Not Yet Valid', variant: 'secondary' };
+  }
+  if (payload.exp === undefined) {
+    return { label: 'No Expiration', variant: 'secondary' };
+  }
+  return { label: 'Valid', variant: 'default' };
+}
+
+/**
+ * A single embedded token that expands to its decoded parts and own nested tokens
+ */
+function NestedTokenItem({
+  nested,
+  parentPath,
+  clock,
+  isDarkMode,
+  onOpenToken,
+}: NestedTokenItemProps) {
+  const [expanded, setExpanded] = useState(false);
+  const path = parentPath ? `${parentPath} → ${nested.path}` : nested.path;
+  const status = getExpiryStatus(nested, clock);
+  const children = expanded ? findNestedTokens(nested.decoded.payload) : [];
+
+  return (
+    <li className="border rounded-md">
+      <button
+        type="button"
+        className="flex w-full items-center gap-2 p-3 text-left text-sm"
+        onClick={() => setExpanded(value => !value)}
+      >
+        {expanded ? (
+          <ChevronDown className="h-4 w-4 shrink-0" />
+        ) : (
+          <ChevronRight className="h-4 w-4 shrink-0" />
+        )}
+        <span className="font-mono break-all flex-1">{path}</span>
+        <Badge variant="outline">{nested.decoded.header.alg}</Badge>
+        <Badge variant={status.variant}>{status.label}</Badge>
+      </button>
+
+      {expanded && (
+        <div className="space-y-3 border-t p-3">
+          <div className="border rounded-md overflow-hidden">
+            <SyntaxHighlighter
+              language="json"
+              style={isDarkMode ? oneDark : oneLight}
+              customStyle={{
+                margin: 0,
+                fontSize: '0.875rem',
+                maxHeight: '300px',
+              }}
+            >
+              {JSON.stringify(
+                {
+                  header: nested.decoded.header,
+                  payload: nested.decoded.payload,
+                },
+                null,
+                2
+              )}
+            </SyntaxHighlighter>
+          </div>
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onOpenToken(nested.token)}
+          >
+            Open in decoder
+          </Button>
+
+          {children.length > 0 && (
+            <ul className="space-y-2">
+              {children.map(child => (
+                <NestedTokenItem
+                  key={child.path}
+                  nested={child}
+                  parentPath={path}
+                  clock={clock}
+                  isDarkMode={isDarkMode}
+                  onOpenToken={onOpenToken}
+                />
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Lists the JWTs embedded in the claims of a decoded token
+ */
+export function NestedTokens({
+  tokens,
+  clock,
+  isDarkMode,
+  onOpenToken,
+}: NestedTokensProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Layers className="h-4 w-4" />
+          Nested Tokens
+        </CardTitle>
+        <CardDescription>
+          JWTs carried inside claims of this token. Expand one to decode it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-2">
+          {tokens.map(nested => (
+            <NestedTokenItem
+              key={nested.path}
+              nested={nested}
+              parentPath=""
+              clock={clock}
+              isDarkMode={isDarkMode}
+              onOpenToken={onOpenToken}
+            />
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,214 @@
+import { useState } from 'react';
+import {
+  AlertCircle,
+  CheckCircle,
+  Globe,
+  MinusCircle,
+  XCircle,
+} from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  verifyTokenOnline,
+  type OnlineVerificationResult,
+} from '@/lib/oidc-client';
+
+interface OnlineVerificationProps {
+  token: string;
+}
+
+/**
+ * Checks a token against its issuer with OIDC discovery, the JWKS and introspection
+ */
+export function OnlineVerification({ token }: OnlineVerificationProps) {
+  const [issuerUrl, setIssuerUrl] = useState('');
+  const [introspectionEndpoint, setIntrospectionEndpoint] = useState('');
+  const [clientId, setClientId] = useState('');
+  const [clientSecret, setClientSecret] = useState('');
+  const [verification, setVerification] = useState<{
+    token: string;
+    result: OnlineVerificationResult;
+  } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const verify = async () => {
+    setIsLoading(true);
+    try {
+      const result = await verifyTokenOnline(token, {
+        issuerUrl,
+        introspectionEndpoint,
+        clientId,
+        clientSecret,
+      });
+      setVerification({ token, result });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // A result only applies to the token it was fetched for
+  const result = verification?.token === token ? verification.result : null;
+
+  const checks = result
+    ? [
+        {
+          label: 'Discovery document',
+          passed: result.discovery !== undefined,
+          unavailable: false,
+          detail: result.discovery?.issuer,
+        },
+        {
+          label: 'Signature (JWKS)',
+          passed: result.signature?.isValid,
+          unavailable: false,
+          detail: result.signature?.key?.kid
+            ? `kid ${result.signature.key.kid}`
+            : result.signature?.error,
+        },
+        {
+          label: 'Introspection',
+          passed: result.introspection?.active,
+          unavailable: result.introspectionAvailable === false,
+          detail:
+            result.introspectionAvailable === false
+              ? 'not available'
+              : result.introspection?.client_id,
+        },
+      ]
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Globe className="h-4 w-4" />
+          Online Verification (Optional)
+        </CardTitle>
+        <CardDescription>
+          Fetch the issuer's discovery document and JWKS, then ask its RFC 7662
+          introspection endpoint whether the token is active. The token is sent
+          to the introspection endpoint.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="issuer-url">Issuer URL</Label>
+          <Input
+            id="issuer-url"
+            value={issuerUrl}
+            onChange={e => setIssuerUrl(e.target.value)}
+            placeholder={`${window.location.origin}/mock-oidc`}
+            className="font-mono text-sm"
+          />
+          <p className="text-xs text-muted-foreground">
+            Started with MOCK_OIDC=1, the dev server hosts an offline mock
+            provider at /mock-oidc. Get a token from /mock-oidc/token.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="introspection-endpoint">Introspection Endpoint</Label>
+          <Input
+            id="introspection-endpoint"
+            value={introspectionEndpoint}
+            onChange={e => setIntrospectionEndpoint(e.target.value)}
+            placeholder="Taken from the discovery document"
+            className="font-mono text-sm"
+          />
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="client-id">Client ID</Label>
+            <Input
+              id="client-id"
+              value={clientId}
+              onChange={e => setClientId(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="client-secret">Client Secret</Label>
+            <Input
+              id="client-secret"
+              type="password"
+              value={clientSecret}
+              onChange={e => setClientSecret(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <Button
+          variant="outline"
+          onClick={verify}
+          disabled={!token || !issuerUrl || isLoading}
+        >
+          {isLoading ? 'Verifying...' : 'Verify Online'}
+        </Button>
+
+        {result && (
+          <div className="space-y-2">
+            {checks.map(check => (
+              <div
+                key={check.label}
+                className="flex items-center justify-between gap-2 p-2 border rounded text-sm"
+              >
+                <div className="flex items-center gap-2">
+                  {check.unavailable ? (
+                    <MinusCircle className="h-4 w-4 text-muted-foreground" />
+                  ) : check.passed ? (
+                    <CheckCircle className="h-4 w-4 text-green-600 dark:text-green-400" />
+                  ) : (
+                    <XCircle className="h-4 w-4 text-red-600 dark:text-red-400" />
+                  )}
+                  <span>{check.label}</span>
+                </div>
+                {check.detail && (
+                  <span className="font-mono text-xs text-muted-foreground truncate">
+                    {check.detail}
+                  </span>
+                )}
+              </div>
+            ))}
+
+            {result.introspection?.scope && (
+              <div className="flex flex-wrap gap-1">
+                {result.introspection.scope.split(' ').map(scope => (
+                  <Badge key={scope} variant="secondary">
+                    {scope}
+                  </Badge>
+                ))}
+              </div>
+            )}
+
+            {result.isValid ? (
+              <div className="flex items-center gap-2 p-3 bg-green-50 dark:bg-green-950/30 border border-green-200 dark:border-green-800 rounded-md">
+                <CheckCircle className="h-4 w-4 text-green-600 dark:text-green-400" />
+                <span className="text-sm text-green-800 dark:text-green-200">
+                  {result.introspectionAvailable === false
+                    ? 'The token is correctly signed by the issuer. It offers no introspection, so revocation was not checked'
+                    : 'The issuer confirms this token is active and correctly signed'}
+                </span>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2 p-3 bg-red-50 dark:bg-red-950/30 border border-red-200 dark:border-red-800 rounded-md">
+                <AlertCircle className="h-4 w-4 text-red-600 dark:text-red-400" />
+                <span className="text-sm text-red-800 dark:text-red-200">
+                  {result.error}
+                </span>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,138 @@
+import { Copy, Lock } from 'lucide-react';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import {
+  oneDark,
+  oneLight,
+} from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { Button } from '@/components/ui/button';
+import type { DecodedPaseto } from '@/lib/token-formats';
+
+interface PasetoDetailsProps {
+  decoded: DecodedPaseto;
+  isDarkMode: boolean;
+  onCopy: (text: string) => void;
+}
+
+const PURPOSE_DESCRIPTIONS: Record<DecodedPaseto['purpose'], string> = {
+  public: 'Signed with Ed25519. Anyone can read the claims.',
+  local: 'Encrypted with XChaCha20 and authenticated with BLAKE2b.',
+};
+
+/**
+ * Shows the version, purpose, claims and footer of a PASETO token
+ */
+export function PasetoDetails({
+  decoded,
+  isDarkMode,
+  onCopy,
+}: PasetoDetailsProps) {
+  const parts =
+    decoded.purpose === 'public'
+      ? [
+          {
+            name: 'Signature',
+            value: `${decoded.signature?.length} characters`,
+          },
+        ]
+      : [
+          { name: 'Nonce', value: `${decoded.nonce?.length} characters` },
+          { name: 'Ciphertext', value: `${decoded.ciphertextLength} bytes` },
+        ];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-2 sm:grid-cols-2">
+        <div className="p-3 bg-muted/50 rounded-md text-sm">
+          <p className="font-medium">Version: {decoded.version}</p>
+          <p className="text-muted-foreground text-xs mt-1">
+            Modern PASETO with Ed25519 and XChaCha20
+          </p>
+        </div>
+        <div className="p-3 bg-muted/50 rounded-md text-sm">
+          <p className="font-medium">Purpose: {decoded.purpose}</p>
+          <p className="text-muted-foreground text-xs mt-1">
+            {PURPOSE_DESCRIPTIONS[decoded.purpose]}
+          </p>
+        </div>
+      </div>
+
+      {decoded.claims ? (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium">Claims</h3>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onCopy(JSON.stringify(decoded.claims, null, 2))}
+            >
+              <Copy className="h-3 w-3 mr-1" />
+              Copy
+            </Button>
+          </div>
+          <div className="border rounded-md overflow-hidden">
+            <SyntaxHighlighter
+              language="json"
+              style={isDarkMode ? oneDark : oneLight}
+              customStyle={{
+                margin: 0,
+                fontSize: '0.875rem',
+                maxHeight: '300px',
+              }}
+            >
+              {JSON.stringify(decoded.claims, null, 2)}
+            </SyntaxHighlighter>
+          </div>
+        </div>
+      ) : decoded.message !== undefined ? (
+        <div className="p-3 border rounded-md bg-muted/50">
+          <p className="font-mono text-sm break-all">{decoded.message}</p>
+        </div>
+      ) : (
+        <div className="flex items-center gap-2 p-3 bg-muted/50 rounded-md text-sm text-muted-foreground">
+          <Lock className="h-4 w-4" />
+          The claims of v4.local tokens are encrypted with a shared key.
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {parts.map(part => (
+          <div
+            key={part.name}
+            className="flex justify-between gap-4 p-2 border rounded text-sm"
+          >
+            <span className="text-muted-foreground">{part.name}:</span>
+            <span className="font-mono truncate">{part.value}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">Footer</h3>
+        {decoded.footer === undefined ? (
+          <p className="text-sm text-muted-foreground">No footer</p>
+        ) : (
+          <div className="border rounded-md overflow-hidden">
+            <SyntaxHighlighter
+              language={decoded.footerClaims ? 'json' : 'text'}
+              style={isDarkMode ? oneDark : oneLight}
+              customStyle={{
+                margin: 0,
+                fontSize: '0.875rem',
+                maxHeight: '200px',
+              }}
+            >
+              {decoded.footerClaims
+                ? JSON.stringify(decoded.footerClaims, null, 2)
+                : decoded.footer}
+            </SyntaxHighlighter>
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">
+          The footer is authenticated but not encrypted. Implicit assertions are
+          authenticated too but never appear in the token, so they must be
+          supplied when verifying.
+        </p>
+      </div>
+    </div>
+  );
+}
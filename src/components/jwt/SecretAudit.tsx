@@ -0,0 +1,186 @@
+import { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, CheckCircle, ShieldAlert, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  COMMON_JWT_SECRETS,
+  parseWordlist,
+  startSecretAudit,
+  type SecretAuditProgress,
+  type SecretAuditResult,
+} from '@/lib/secret-audit';
+
+interface SecretAuditProps {
+  token: string;
+}
+
+/**
+ * Checks whether an HS* token was signed with a common or listed secret
+ */
+export function SecretAudit({ token }: SecretAuditProps) {
+  const [wordlist, setWordlist] = useState<{
+    name: string;
+    words: string[];
+  } | null>(null);
+  const [progress, setProgress] = useState<SecretAuditProgress | null>(null);
+  const [audit, setAudit] = useState<{
+    token: string;
+    result: SecretAuditResult;
+  } | null>(null);
+  const cancelRef = useRef<(() => void) | null>(null);
+
+  // Stop a running audit when the card goes away
+  useEffect(() => () => cancelRef.current?.(), []);
+
+  const handleWordlistUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onload = e => {
+        const content = e.target?.result as string;
+        setWordlist({ name: file.name, words: parseWordlist(content) });
+      };
+      reader.readAsText(file);
+    }
+    event.target.value = '';
+  };
+
+  const runAudit = async () => {
+    const auditedToken = token;
+    setProgress({ tried: 0, total: 0 });
+    const { result, cancel } = startSecretAudit(
+      { token: auditedToken, wordlist: wordlist?.words ?? [] },
+      setProgress
+    );
+    cancelRef.current = cancel;
+
+    const outcome = await result;
+    if (cancelRef.current === cancel) {
+      cancelRef.current = null;
+      setProgress(null);
+      setAudit({ token: auditedToken, result: outcome });
+    }
+  };
+
+  // A result only applies to the token it was computed for
+  const result = audit?.token === token ? audit.result : null;
+  const isRunning = progress !== null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <ShieldAlert className="h-4 w-4" />
+          Secret Strength Audit
+        </CardTitle>
+        <CardDescription>
+          Try {COMMON_JWT_SECRETS.length} common and default secrets, plus an
+          optional wordlist, against this token's signature. Everything runs
+          offline in a background worker. Only audit tokens you own.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="file"
+            accept=".txt,.lst,.dic"
+            onChange={handleWordlistUpload}
+            className="hidden"
+            id="wordlist-upload"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => document.getElementById('wordlist-upload')?.click()}
+            disabled={isRunning}
+          >
+            <Upload className="h-3 w-3 mr-1" />
+            Upload Wordlist
+          </Button>
+          {wordlist && (
+            <>
+              <span className="text-xs text-muted-foreground">
+                {wordlist.name}: {wordlist.words.length.toLocaleString()}{' '}
+                candidates
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setWordlist(null)}
+                disabled={isRunning}
+              >
+                Remove
+              </Button>
+            </>
+          )}
+        </div>
+
+        {isRunning ? (
+          <div className="space-y-2">
+            <Progress
+              value={
+                progress.total ? (progress.tried / progress.total) * 100 : 0
+              }
+              className="h-2"
+            />
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs text-muted-foreground">
+                Tried {progress.tried.toLocaleString()} of{' '}
+                {progress.total.toLocaleString()} secrets
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => cancelRef.current?.()}
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button variant="outline" onClick={runAudit} disabled={!token}>
+            Audit Secret
+          </Button>
+        )}
+
+        {result &&
+          (result.found ? (
+            <div className="flex items-start gap-2 p-3 bg-red-50 dark:bg-red-950/30 border border-red-200 dark:border-red-800 rounded-md">
+              <AlertTriangle className="h-4 w-4 mt-0.5 text-red-600 dark:text-red-400" />
+              <div className="text-sm text-red-800 dark:text-red-200">
+                <p>
+                  The secret is guessable. It was found after{' '}
+                  {result.tried.toLocaleString()} attempts:
+                </p>
+                <p className="font-mono break-all mt-1">{result.secret}</p>
+              </div>
+            </div>
+          ) : result.error ? (
+            <div className="flex items-center gap-2 p-3 bg-yellow-50 dark:bg-yellow-950/30 border border-yellow-200 dark:border-yellow-800 rounded-md">
+              <AlertTriangle className="h-4 w-4 text-yellow-600 dark:text-yellow-400" />
+              <span className="text-sm text-yellow-800 dark:text-yellow-200">
+                {result.error}
+                {result.tried > 0 &&
+                  ` after ${result.tried.toLocaleString()} of ${result.total.toLocaleString()} secrets`}
+              </span>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 p-3 bg-green-50 dark:bg-green-950/30 border border-green-200 dark:border-green-800 rounded-md">
+              <CheckCircle className="h-4 w-4 text-green-600 dark:text-green-400" />
+              <span className="text-sm text-green-800 dark:text-green-200">
+                None of the {result.total.toLocaleString()} secrets tried
+                matched
+              </span>
+            </div>
+          ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,185 @@
+import { CalendarClock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  formatTimestamp,
+  getTimelineEvents,
+  type JwtPayload,
+} from '@/lib/jwt-utils';
+
+interface TokenTimelineProps {
+  payload: JwtPayload;
+  currentTime: number;
+  simulatedTime: number | null;
+  onSimulatedTimeChange: (time: number | null) => void;
+}
+
+const CLAIM_COLORS: Record<string, string> = {
+  iat: 'bg-blue-500',
+  nbf: 'bg-purple-500',
+  exp: 'bg-red-500',
+  auth_time: 'bg-green-500',
+};
+
+/**
+ * Formats milliseconds since the epoch for a datetime-local input
+ * @param time - Time in milliseconds
+ * @returns Local date and time as YYYY-MM-DDTHH:mm:ss
+ */
+function toDateTimeLocal(time: number): string {
+  const date = new Date(time);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+/**
+ * Formats a countdown in seconds as days, hours, minutes and seconds
+ * @param seconds - Remaining seconds
+ * @returns Countdown text such as 1d 02:03:04
+ */
+function formatCountdown(seconds: number): string {
+  const days = Math.floor(seconds / 86400);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const clock = `${pad(Math.floor((seconds % 86400) / 3600))}:${pad(Math.floor((seconds % 3600) / 60))}:${pad(seconds % 60)}`;
+  return days > 0 ? `${days}d ${clock}` : clock;
+}
+
+/**
+ * Plots the time claims of a token relative to the current or simulated time
+ */
+export function TokenTimeline({
+  payload,
+  currentTime,
+  simulatedTime,
+  onSimulatedTimeChange,
+}: TokenTimelineProps) {
+  const events = getTimelineEvents(payload);
+  const now = Math.floor(currentTime / 1000);
+  const timestamps = [...events.map(event => event.timestamp), now];
+  const start = Math.min(...timestamps);
+  const end = Math.max(...timestamps);
+  const position = (timestamp: number) =>
+    end === start ? 50 : ((timestamp - start) / (end - start)) * 100;
+
+  const exp = typeof payload.exp === 'number' ? payload.exp : undefined;
+  const nbf = typeof payload.nbf === 'number' ? payload.nbf : undefined;
+  const iat = typeof payload.iat === 'number' ? payload.iat : undefined;
+  const validFrom = nbf ?? iat ?? start;
+  let countdown: string;
+  if (exp === undefined) {
+    countdown = 'Never expires';
+  } else if (exp <= now) {
+    countdown = `Expired ${formatCountdown(now - exp)} ago`;
+  } else if (nbf !== undefined && nbf > now) {
+    countdown = `Valid in ${formatCountdown(nbf - now)}`;
+  } else {
+    countdown = `Expires in ${formatCountdown(exp - now)}`;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <CalendarClock className="h-4 w-4" />
+          Token Timeline
+        </CardTitle>
+        <CardDescription>
+          Time claims relative to{' '}
+          {simulatedTime === null ? 'now' : 'the simulated time'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="font-mono text-lg">{countdown}</p>
+
+        {events.length > 0 && (
+          <div className="relative h-2 mx-2 my-8 bg-muted rounded-full">
+            {exp !== undefined && (
+              <div
+                className="absolute h-2 bg-green-200 dark:bg-green-900 rounded-full"
+                style={{
+                  left: `${position(validFrom)}%`,
+                  right: `${100 - position(exp)}%`,
+                }}
+              />
+            )}
+            {events.map((event, index) => (
+              <div
+                key={event.claim}
+                className="absolute -translate-x-1/2"
+                style={{ left: `${position(event.timestamp)}%` }}
+                title={formatTimestamp(event.timestamp)}
+              >
+                <div
+                  className={`h-4 w-1 -mt-1 mx-auto rounded ${CLAIM_COLORS[event.claim] ?? 'bg-gray-500'}`}
+                />
+                <span
+                  className={`absolute left-1/2 -translate-x-1/2 whitespace-nowrap font-mono text-xs ${index % 2 === 0 ? 'top-4' : '-top-6'}`}
+                >
+                  {event.claim}
+                </span>
+              </div>
+            ))}
+            <div
+              className="absolute -translate-x-1/2"
+              style={{ left: `${position(now)}%` }}
+            >
+              <div className="h-6 w-0.5 -mt-2 mx-auto bg-foreground" />
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {events.map(event => (
+            <div
+              key={event.claim}
+              className="flex justify-between gap-4 p-2 border rounded text-sm"
+            >
+              <span className="font-mono text-muted-foreground">
+                {event.claim}
+                {!event.registered && ' (custom)'}
+              </span>
+              <span>{formatTimestamp(event.timestamp)}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="simulated-time">Simulated current time</Label>
+          <div className="flex gap-2">
+            <Input
+              id="simulated-time"
+              type="datetime-local"
+              step="1"
+              value={toDateTimeLocal(currentTime)}
+              onChange={e => {
+                const time = new Date(e.target.value).getTime();
+                if (!Number.isNaN(time)) {
+                  onSimulatedTimeChange(time);
+                }
+              }}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={simulatedTime === null}
+              onClick={() => onSimulatedTimeChange(null)}
+            >
+              Use real time
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Validation, the lint checks and the countdown all use this time.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,6 +6,7 @@ import {
   FileJson,
   Palette,
   KeySquare,
+  FileKey,
   Menu,
   X,
 } from 'lucide-react';
@@ -36,6 +37,12 @@ const navigationItems = [
     icon: KeySquare,
     description: 'Decode and inspect JWT tokens',
   },
+  {
+    name: 'SAML Decoder',
+    path: '/saml',
+    icon: FileKey,
+    description: 'Decode and inspect SAML messages',
+  },
 ];
 
 export function Layout() {
@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertCircle, Copy, Info } from 'lucide-react';
+import {
+  REGEX_FLAVORS,
+  translateRegex,
+  type RegexFlavor,
+} from '@/lib/regex-flavors';
+
+interface FlavorTranslationProps {
+  pattern: string;
+  flavor: RegexFlavor;
+  flags: string;
+}
+
+/**
+ * Translates the pattern into another flavor, listing behavior changes and
+ * constructs that have no equivalent
+ */
+export function FlavorTranslation({
+  pattern,
+  flavor,
+  flags,
+}: FlavorTranslationProps) {
+  const [target, setTarget] = useState<RegexFlavor>(
+    flavor === 'javascript' ? 'python' : 'javascript'
+  );
+
+  const copyToClipboard = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+    } catch (err) {
+      console.error('Failed to copy text: ', err);
+    }
+  };
+
+  const translation = translateRegex(pattern, flavor, target, flags);
+  const output =
+    target === 'javascript'
+      ? `/${translation.pattern}/${translation.flags}`
+      : translation.pattern;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Target flavor</Label>
+        <Select
+          value={target}
+          onValueChange={value => setTarget(value as RegexFlavor)}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(REGEX_FLAVORS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Translated pattern</Label>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => copyToClipboard(output)}
+          >
+            <Copy className="h-3 w-3 mr-1" />
+            Copy
+          </Button>
+        </div>
+        <div className="p-3 border rounded-md bg-muted/50 font-mono text-sm break-all">
+          {output}
+        </div>
+      </div>
+
+      {translation.unsupported.length > 0 && (
+        <ul className="space-y-1 text-sm text-red-500">
+          {translation.unsupported.map(issue => (
+            <li key={issue.start} className="flex items-start gap-1">
+              <AlertCircle className="h-3 w-3 mt-1 shrink-0" />
+              <span>
+                <code className="font-mono">{issue.raw}</code> at position{' '}
+                {issue.start} has no equivalent in {REGEX_FLAVORS[target]} (
+                {issue.label})
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {translation.notes.length > 0 && (
+        <ul className="space-y-1 text-sm text-muted-foreground">
+          {translation.notes.map(note => (
+            <li key={note} className="flex items-start gap-1">
+              <Info className="h-3 w-3 mt-1 shrink-0" />
+              {note}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { getMatchGroups, type HighlightSegment } from '@/lib/regex-utils';
+
+// Group colors repeat after six groups
+const GROUP_COLORS = [
+  'bg-sky-200 dark:bg-sky-800',
+  'bg-green-200 dark:bg-green-800',
+  'bg-pink-200 dark:bg-pink-800',
+  'bg-orange-200 dark:bg-orange-800',
+  'bg-violet-200 dark:bg-violet-800',
+  'bg-teal-200 dark:bg-teal-800',
+];
+
+const MATCH_COLOR = 'bg-yellow-200 dark:bg-yellow-800';
+
+/**
+ * Gets the highlight color of a capture group
+ * @param groupIndex - The group number
+ * @returns Tailwind background classes
+ */
+function getGroupColor(groupIndex: number): string {
+  return GROUP_COLORS[(groupIndex - 1) % GROUP_COLORS.length];
+}
+
+/**
+ * Labels a capture group by number and name
+ * @param groupIndex - The group number
+ * @param name - The group name, if any
+ * @returns A label such as $1 or $2 <year>
+ */
+function getGroupLabel(groupIndex: number, name?: string): string {
+  return name ? `$${groupIndex} <${name}>` : `$${groupIndex}`;
+}
+
+interface HighlightedMatchesProps {
+  segments: HighlightSegment[];
+  matches: RegExpMatchArray[];
+  isNested?: boolean;
+}
+
+/**
+ * Renders highlighted matches with their capture groups nested and color-coded
+ */
+export function HighlightedMatches({
+  segments,
+  matches,
+  isNested = false,
+}: HighlightedMatchesProps) {
+  return segments.map((segment, index) => {
+    if (!segment.isMatch) {
+      return <span key={index}>{segment.text}</span>;
+    }
+
+    const content = segment.children ? (
+      <HighlightedMatches
+        segments={segment.children}
+        matches={matches}
+        isNested
+      />
+    ) : (
+      segment.text
+    );
+
+    if (segment.groupIndex !== undefined) {
+      return (
+        <span
+          key={index}
+          className={`${getGroupColor(segment.groupIndex)} rounded-sm`}
+          title={`Group ${getGroupLabel(segment.groupIndex, segment.groupName)}: ${segment.start}–${segment.end}`}
+        >
+          {content}
+        </span>
+      );
+    }
+
+    // Text inside a match that no group captured
+    if (isNested) {
+      return <span key={index}>{content}</span>;
+    }
+
+    const match = matches[segment.matchIndex!];
+
+    return (
+      <span
+        key={index}
+        className={`${MATCH_COLOR} px-1 rounded`}
+        title={`Match ${segment.matchIndex! + 1}: ${match.index}–${match.index! + match[0].length}`}
+      >
+        {content}
+      </span>
+    );
+  });
+}
+
+interface MatchGroupsTableProps {
+  matches: RegExpMatchArray[];
+  groupNames: Array<string | undefined>;
+}
+
+/**
+ * Lists every match with its capture groups and their offsets
+ */
+export function MatchGroupsTable({
+  matches,
+  groupNames,
+}: MatchGroupsTableProps) {
+  return (
+    <div className="border rounded-md max-h-80 overflow-y-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Match</TableHead>
+            <TableHead>Group</TableHead>
+            <TableHead>Value</TableHead>
+            <TableHead className="text-right">Span</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {matches.flatMap((match, matchIndex) => [
+            <TableRow key={`${matchIndex}`}>
+              <TableCell className="font-medium">{matchIndex + 1}</TableCell>
+              <TableCell>
+                <Badge variant="outline" className={MATCH_COLOR}>
+                  Full match
+                </Badge>
+              </TableCell>
+              <TableCell className="font-mono text-xs break-all whitespace-normal">
+                "{match[0]}"
+              </TableCell>
+              <TableCell className="font-mono text-xs text-right">
+                {match.index}–{match.index! + match[0].length}
+              </TableCell>
+            </TableRow>,
+            ...getMatchGroups(match, groupNames).map(group => (
+              <TableRow key={`${matchIndex}-${group.index}`}>
+                <TableCell />
+                <TableCell>
+                  <Badge
+                    variant="outline"
+                    className={`font-mono ${getGroupColor(group.index)}`}
+                  >
+                    {getGroupLabel(group.index, group.name)}
+                  </Badge>
+                </TableCell>
+                <TableCell className="font-mono text-xs break-all whitespace-normal">
+                  {group.value !== undefined ? (
+                    `"${group.value}"`
+                  ) : (
+                    <span className="text-muted-foreground">undefined</span>
+                  )}
+                </TableCell>
+                <TableCell className="font-mono text-xs text-right">
+                  {group.start !== undefined
+                    ? `${group.start}–${group.end}`
+                    : '—'}
+                </TableCell>
+              </TableRow>
+            )),
+          ])}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { AlertCircle, Download } from 'lucide-react';
+import type { RailroadBoxKind, RailroadDiagram } from '@/lib/regex-railroad';
+
+interface RegexRailroadDiagramProps {
+  diagram: RailroadDiagram;
+  onHover: (span: { start: number; end: number } | null) => void;
+}
+
+// Colors are inline attributes rather than classes so exported files keep them
+const BOX_COLORS: Record<RailroadBoxKind, { fill: string; stroke: string }> = {
+  literal: { fill: '#dbeafe', stroke: '#3b82f6' },
+  class: { fill: '#dcfce7', stroke: '#22c55e' },
+  special: { fill: '#fef3c7', stroke: '#f59e0b' },
+  assertion: { fill: '#f3e8ff', stroke: '#a855f7' },
+  reference: { fill: '#fee2e2', stroke: '#ef4444' },
+};
+const TRACK_COLOR = '#64748b';
+const TEXT_COLOR = '#0f172a';
+const GROUP_COLOR = '#94a3b8';
+const HOVER_COLOR = '#ea580c';
+
+/**
+ * Draws a railroad diagram as SVG, reporting which part of the pattern is
+ * hovered, with SVG and PNG export
+ */
+export function RegexRailroadDiagram({
+  diagram,
+  onHover,
+}: RegexRailroadDiagramProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [hovered, setHovered] = useState<string | null>(null);
+  const [exportError, setExportError] = useState('');
+
+  const hover = (key: string, span: { start: number; end: number }) => {
+    setHovered(key);
+    onHover(span);
+  };
+
+  const leave = () => {
+    setHovered(null);
+    onHover(null);
+  };
+
+  const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const toSvgBlob = () => {
+    if (!svgRef.current) return null;
+    return new Blob([new XMLSerializer().serializeToString(svgRef.current)], {
+      type: 'image/svg+xml',
+    });
+  };
+
+  const exportSvg = () => {
+    const blob = toSvgBlob();
+    if (!blob) return;
+    setExportError('');
+    downloadBlob(blob, 'regex-diagram.svg');
+  };
+
+  const exportPng = () => {
+    const svgBlob = toSvgBlob();
+    if (!svgBlob) return;
+    setExportError('');
+
+    const url = URL.createObjectURL(svgBlob);
+    const image = new Image();
+    image.onload = () => {
+      // Render at twice the size so the image stays sharp on high-DPI screens
+      const canvas = document.createElement('canvas');
+      canvas.width = diagram.width * 2;
+      canvas.height = diagram.height * 2;
+      const context = canvas.getContext('2d');
+      context?.scale(2, 2);
+      context?.drawImage(image, 0, 0);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => {
+        if (blob) {
+          downloadBlob(blob, 'regex-diagram.png');
+        } else {
+          setExportError('The browser could not encode the diagram as PNG');
+        }
+      });
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      setExportError('The diagram could not be rendered as PNG');
+    };
+    image.src = url;
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={exportSvg}>
+          <Download className="h-3 w-3 mr-1" />
+          SVG
+        </Button>
+        <Button variant="outline" size="sm" onClick={exportPng}>
+          <Download className="h-3 w-3 mr-1" />
+          PNG
+        </Button>
+      </div>
+      {exportError && (
+        <div className="flex items-center gap-2 p-3 bg-red-50 dark:bg-red-950/30 border border-red-200 dark:border-red-800 rounded-md">
+          <AlertCircle className="h-4 w-4 text-red-600 dark:text-red-400" />
+          <span className="text-sm text-red-800 dark:text-red-200">
+            {exportError}
+          </span>
+        </div>
+      )}
+      <div className="overflow-x-auto border rounded-md bg-white">
+        <svg
+          ref={svgRef}
+          xmlns="http://www.w3.org/2000/svg"
+          width={diagram.width}
+          height={diagram.height}
+          viewBox={`0 0 ${diagram.width} ${diagram.height}`}
+          fontFamily="ui-monospace, SFMono-Regular, Menlo, Consolas, monospace"
+          role="img"
+          aria-label="Railroad diagram of the pattern"
+        >
+          <rect width={diagram.width} height={diagram.height} fill="#ffffff" />
+
+          {diagram.groups.map((group, index) => {
+            const isHovered = hovered === `group-${index}`;
+            return (
+              <g
+                key={`group-${index}`}
+                onMouseEnter={() => hover(`group-${index}`, group)}
+                onMouseLeave={leave}
+              >
+                <rect
+                  x={group.x}
+                  y={group.y}
+                  width={group.width}
+                  height={group.height}
+                  rx={6}
+                  fill="#f8fafc"
+                  stroke={isHovered ? HOVER_COLOR : GROUP_COLOR}
+                  strokeWidth={isHovered ? 2 : 1}
+                  strokeDasharray={group.isLookaround ? '4 3' : undefined}
+                />
+                <text
+                  x={group.x + 6}
+                  y={group.y + 12}
+                  fontSize={11}
+                  fill={isHovered ? HOVER_COLOR : TRACK_COLOR}
+                >
+                  {group.label}
+                </text>
+              </g>
+            );
+          })}
+
+          <path
+            d={diagram.paths.join('')}
+            fill="none"
+            stroke={TRACK_COLOR}
+            strokeWidth={2}
+          />
+
+          {diagram.boxes.map((box, index) => {
+            const isHovered = hovered === `box-${index}`;
+            return (
+              <g
+                key={`box-${index}`}
+                onMouseEnter={() => hover(`box-${index}`, box)}
+                onMouseLeave={leave}
+              >
+                <rect
+                  x={box.x}
+                  y={box.y}
+                  width={box.width}
+                  height={box.height}
+                  rx={box.kind === 'assertion' ? box.height / 2 : 4}
+                  fill={BOX_COLORS[box.kind].fill}
+                  stroke={isHovered ? HOVER_COLOR : BOX_COLORS[box.kind].stroke}
+                  strokeWidth={isHovered ? 2.5 : 1.5}
+                />
+                <text
+                  x={box.x + box.width / 2}
+                  y={box.y + box.height / 2}
+                  fontSize={12.5}
+                  textAnchor="middle"
+                  dominantBaseline="central"
+                  fill={TEXT_COLOR}
+                >
+                  {box.label}
+                </text>
+              </g>
+            );
+          })}
+
+          {diagram.labels.map((label, index) => (
+            <text
+              key={`label-${index}`}
+              x={label.x}
+              y={label.y}
+              fontSize={11}
+              textAnchor="middle"
+              fill={hovered === `label-${index}` ? HOVER_COLOR : TRACK_COLOR}
+              onMouseEnter={() => hover(`label-${index}`, label)}
+              onMouseLeave={leave}
+            >
+              {label.text}
+            </text>
+          ))}
+        </svg>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { Badge } from '@/components/ui/badge';
+import type { RegexExplanationNode } from '@/lib/regex-utils';
+
+interface RegexExplanationTreeProps {
+  nodes: RegexExplanationNode[];
+}
+
+/**
+ * Renders a regex explanation as nested lists that follow the pattern's structure
+ */
+export function RegexExplanationTree({ nodes }: RegexExplanationTreeProps) {
+  return (
+    <ul className="space-y-2">
+      {nodes.map((node, index) => (
+        <li key={index} className="space-y-2">
+          <div className="flex items-start gap-2 text-sm">
+            <Badge
+              variant="outline"
+              className="font-mono text-xs whitespace-normal break-all"
+            >
+              {node.component}
+            </Badge>
+            <span className="text-muted-foreground">{node.explanation}</span>
+          </div>
+          {node.children.length > 0 && (
+            <div className="ml-2 pl-3 border-l">
+              <RegexExplanationTree nodes={node.children} />
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
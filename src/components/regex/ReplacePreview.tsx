@@ -0,0 +1,93 @@
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Copy } from 'lucide-react';
+import type { replaceWithPattern } from '@/lib/regex-utils';
+
+interface ReplacePreviewProps {
+  result: ReturnType<typeof replaceWithPattern>;
+}
+
+/**
+ * Shows the replaced text with each replacement highlighted, and every
+ * replacement as a call of a replacer function
+ */
+export function ReplacePreview({ result }: ReplacePreviewProps) {
+  const copyToClipboard = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+    } catch (err) {
+      console.error('Failed to copy text: ', err);
+    }
+  };
+
+  const groupCount = result.replacements[0]?.groups.length ?? 0;
+  const parameters = [
+    'match',
+    ...Array.from({ length: groupCount }, (_, i) => `p${i + 1}`),
+    'offset',
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Result</Label>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => copyToClipboard(result.output)}
+          >
+            <Copy className="h-3 w-3 mr-1" />
+            Copy
+          </Button>
+        </div>
+        <div className="p-3 border rounded-md bg-muted/50 font-mono text-sm whitespace-pre-wrap break-all">
+          {result.segments.length > 0 ? (
+            result.segments.map((segment, index) =>
+              segment.isReplacement ? (
+                <span
+                  key={index}
+                  className="bg-green-200 dark:bg-green-800 px-1 rounded"
+                  title={`Replacement ${segment.replacementIndex! + 1}`}
+                >
+                  {segment.text}
+                </span>
+              ) : (
+                <span key={index}>{segment.text}</span>
+              )
+            )
+          ) : (
+            <span className="text-muted-foreground">No text to display</span>
+          )}
+        </div>
+      </div>
+
+      {result.replacements.length > 0 && (
+        <div className="space-y-2">
+          <Label>Replacements</Label>
+          <div className="p-3 border rounded-md font-mono text-xs space-y-1 max-h-64 overflow-y-auto">
+            <p className="text-muted-foreground">
+              ({parameters.join(', ')}) =&gt; replacement
+            </p>
+            {result.replacements.map(replacement => (
+              <p key={replacement.matchIndex} className="break-all">
+                (
+                {[
+                  JSON.stringify(replacement.match),
+                  ...replacement.groups.map(group =>
+                    group === undefined ? 'undefined' : JSON.stringify(group)
+                  ),
+                  replacement.start,
+                ].join(', ')}
+                ) =&gt;{' '}
+                <span className="text-green-700 dark:text-green-400">
+                  {JSON.stringify(replacement.replacement)}
+                </span>
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
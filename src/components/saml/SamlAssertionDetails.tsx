@@ -0,0 +1,162 @@
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  formatTimestamp,
+  getTimeRemaining,
+  isTokenNotYetValid,
+  type Clock,
+} from '@/lib/jwt-utils';
+import {
+  isSamlTimeReached,
+  samlAssertionToJwtPayload,
+  type SamlAssertion,
+} from '@/lib/saml-utils';
+
+interface SamlAssertionDetailsProps {
+  assertion: SamlAssertion;
+  hasResponseSignature: boolean;
+  clock: Clock;
+}
+
+/**
+ * Shows the issuer, subject, conditions, audience and attributes of a SAML assertion
+ */
+export function SamlAssertionDetails({
+  assertion,
+  hasResponseSignature,
+  clock,
+}: SamlAssertionDetailsProps) {
+  // Conditions map onto nbf and exp so the JWT time helpers apply, except that
+  // NotOnOrAfter is exclusive
+  const payload = samlAssertionToJwtPayload(assertion);
+  const isExpired = isSamlTimeReached(
+    assertion.conditions?.notOnOrAfter,
+    clock
+  );
+  const isNotYetValid = isTokenNotYetValid(payload, clock);
+  const hasSignature = assertion.hasSignatureElement || hasResponseSignature;
+
+  const rows = [
+    { label: 'Issuer', value: assertion.issuer },
+    { label: 'Subject (NameID)', value: assertion.subject?.nameId },
+    { label: 'NameID Format', value: assertion.subject?.format },
+    {
+      label: 'Issue Instant',
+      value: assertion.issueInstant && formatTimestamp(assertion.issueInstant),
+    },
+    {
+      label: 'Not Before',
+      value: payload.nbf && formatTimestamp(payload.nbf),
+    },
+    {
+      label: 'Not On Or After',
+      value: payload.exp && formatTimestamp(payload.exp),
+    },
+    { label: 'Time Remaining', value: getTimeRemaining(payload, clock) },
+    {
+      label: 'Confirmation Expires',
+      value:
+        assertion.subject?.notOnOrAfter &&
+        formatTimestamp(assertion.subject.notOnOrAfter),
+    },
+    { label: 'Recipient', value: assertion.subject?.recipient },
+    {
+      label: 'Authenticated At',
+      value: assertion.authnInstant && formatTimestamp(assertion.authnInstant),
+    },
+    { label: 'Session Index', value: assertion.sessionIndex },
+  ].filter(row => row.value);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant={isExpired ? 'destructive' : 'default'}>
+          {isExpired ? 'Expired' : 'Valid Assertion'}
+        </Badge>
+        {isNotYetValid && <Badge variant="secondary">Not Yet Valid</Badge>}
+        <Badge variant={hasSignature ? 'outline' : 'destructive'}>
+          {assertion.hasSignatureElement
+            ? 'Assertion signature present (not verified)'
+            : hasResponseSignature
+              ? 'Response signature present (not verified)'
+              : 'Unsigned'}
+        </Badge>
+      </div>
+
+      <div className="space-y-2">
+        {rows.map(row => (
+          <div
+            key={row.label}
+            className="flex justify-between gap-4 p-2 border rounded text-sm"
+          >
+            <span className="text-muted-foreground shrink-0">{row.label}:</span>
+            <span className="font-mono text-right break-all">{row.value}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">Audience</h3>
+        {assertion.conditions?.audiences.length ? (
+          <div className="flex flex-wrap gap-1">
+            {assertion.conditions.audiences.map(audience => (
+              <Badge key={audience} variant="secondary" className="font-mono">
+                {audience}
+              </Badge>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No audience restriction
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">
+          Attributes ({assertion.attributes.length})
+        </h3>
+        {assertion.attributes.length > 0 ? (
+          <div className="border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Values</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {assertion.attributes.map((attribute, index) => (
+                  <TableRow key={`${attribute.name}-${index}`}>
+                    <TableCell className="align-top">
+                      <p className="font-mono text-xs break-all">
+                        {attribute.name}
+                      </p>
+                      {attribute.friendlyName && (
+                        <p className="text-xs text-muted-foreground">
+                          {attribute.friendlyName}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs break-all whitespace-normal">
+                      {attribute.values.join(', ')}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No attributes</p>
+        )}
+      </div>
+    </div>
+  );
+}
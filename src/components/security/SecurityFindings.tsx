@@ -0,0 +1,79 @@
+import { ShieldAlert, ShieldCheck } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import type {
+  SecurityFinding,
+  SecuritySeverity,
+} from '@/lib/security-findings';
+
+interface SecurityFindingsProps {
+  findings: SecurityFinding[];
+  description: string;
+}
+
+const SEVERITY_STYLES: Record<SecuritySeverity, string> = {
+  critical:
+    'bg-red-50 dark:bg-red-950/30 border-red-200 dark:border-red-800 text-red-800 dark:text-red-200',
+  high: 'bg-orange-50 dark:bg-orange-950/30 border-orange-200 dark:border-orange-800 text-orange-800 dark:text-orange-200',
+  medium:
+    'bg-yellow-50 dark:bg-yellow-950/30 border-yellow-200 dark:border-yellow-800 text-yellow-800 dark:text-yellow-200',
+  low: 'bg-blue-50 dark:bg-blue-950/30 border-blue-200 dark:border-blue-800 text-blue-800 dark:text-blue-200',
+};
+
+/**
+ * Lists security findings with their severity, or a clean bill of health
+ */
+export function SecurityFindings({
+  findings,
+  description,
+}: SecurityFindingsProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <ShieldAlert className="h-4 w-4" />
+          Security Findings
+        </CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {findings.length > 0 ? (
+          <ul className="space-y-2">
+            {findings.map((finding, index) => (
+              <li
+                key={`${finding.id}-${finding.location}-${index}`}
+                className={`p-3 border rounded-md text-sm ${SEVERITY_STYLES[finding.severity]}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">{finding.title}</span>
+                  <Badge variant="outline" className="uppercase">
+                    {finding.severity}
+                  </Badge>
+                </div>
+                <p className="mt-1 text-xs">{finding.explanation}</p>
+                {finding.location && (
+                  <p className="mt-1 font-mono text-xs opacity-80">
+                    {finding.location}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="flex items-center gap-2 p-3 bg-green-50 dark:bg-green-950/30 border border-green-200 dark:border-green-800 rounded-md">
+            <ShieldCheck className="h-4 w-4 text-green-600 dark:text-green-400" />
+            <span className="text-sm text-green-800 dark:text-green-200">
+              No security issues found
+            </span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CLAIM_PRESETS,
+  buildPresetPayload,
+  resolveRelativeTime,
+  validateJwtClaims,
+} from '../jwt-claims';
+
+const mockTimestamp = Math.floor(
+  new Date('2023-01-01T00:00:00Z').getTime() / 1000
+);
+const clock = () => mockTimestamp * 1000;
+
+describe('resolveRelativeTime', () => {
+  it('should resolve "now"', () => {
+    expect(resolveRelativeTime('now', clock)).toBe(mockTimestamp);
+  });
+
+  it('should resolve offsets in every unit', () => {
+    expect(resolveRelativeTime('+30s', clock)).toBe(mockTimestamp + 30);
+    expect(resolveRelativeTime('+15m', clock)).toBe(mockTimestamp + 900);
+    expect(resolveRelativeTime('-1h', clock)).toBe(mockTimestamp - 3600);
+    expect(resolveRelativeTime('+7d', clock)).toBe(mockTimestamp + 604800);
+    expect(resolveRelativeTime('now + 2w', clock)).toBe(
+      mockTimestamp + 1209600
+    );
+  });
+
+  it('should accept absolute NumericDates', () => {
+    expect(resolveRelativeTime('1516239022', clock)).toBe(1516239022);
+  });
+
+  it('should reject anything else', () => {
+    expect(resolveRelativeTime('', clock)).toBeUndefined();
+    expect(resolveRelativeTime('+15', clock)).toBeUndefined();
+    expect(resolveRelativeTime('tomorrow', clock)).toBeUndefined();
+    expect(resolveRelativeTime('+1y', clock)).toBeUndefined();
+  });
+});
+
+describe('buildPresetPayload', () => {
+  it('should resolve the preset times', () => {
+    const preset = CLAIM_PRESETS.find(
+      item => item.id === 'oauth-access-token'
+    )!;
+    const payload = buildPresetPayload(preset, clock);
+
+    expect(payload.iat).toBe(mockTimestamp);
+    expect(payload.exp).toBe(mockTimestamp + 900);
+    expect(payload.client_id).toBe('s6BhdRkqt3');
+    expect(preset.header.typ).toBe('at+jwt');
+  });
+
+  it('should produce valid claims for every preset', () => {
+    for (const preset of CLAIM_PRESETS) {
+      const result = validateJwtClaims(
+        preset.header,
+        buildPresetPayload(preset, clock)
+      );
+      expect(result.issues).toEqual([]);
+    }
+  });
+});
+
+describe('validateJwtClaims', () => {
+  it('should accept custom claims of any type', () => {
+    const result = validateJwtClaims(
+      { typ: 'JWT', x: 1 },
+      { sub: '1', roles: ['admin'], exp: mockTimestamp }
+    );
+    expect(result.isValid).toBe(true);
+  });
+
+  it('should report registered claims of the wrong type', () => {
+    const result = validateJwtClaims(
+      { kid: 7 },
+      { sub: 1234, aud: [1], exp: '+15m', iat: -1 }
+    );
+
+    expect(result.isValid).toBe(false);
+    expect(
+      result.issues.map(issue => `${issue.section}:${issue.path}`)
+    ).toEqual([
+      'header:kid',
+      'payload:sub',
+      'payload:aud',
+      'payload:exp',
+      'payload:iat',
+    ]);
+    expect(result.issues[2].message).toBe(
+      'must be a string or an array of strings'
+    );
+  });
+
+  it('should require exp to come after nbf and iat', () => {
+    const result = validateJwtClaims(
+      {},
+      { iat: mockTimestamp, nbf: mockTimestamp + 60, exp: mockTimestamp + 60 }
+    );
+    expect(result.issues).toEqual([
+      { section: 'payload', path: 'exp', message: 'must be after nbf' },
+    ]);
+  });
+
+  it('should reject a payload that is not an object', () => {
+    const result = validateJwtClaims({}, ['sub']);
+    expect(result.issues).toEqual([
+      { section: 'payload', path: 'payload', message: 'must be a JSON object' },
+    ]);
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { lintJwt, estimateSecretEntropy } from '../jwt-lint';
+import type { DecodedJwt } from '../jwt-utils';
+
+const mockDate = new Date('2023-01-01T00:00:00Z');
+const mockTimestamp = Math.floor(mockDate.getTime() / 1000);
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(mockDate);
+});
+
+function token(
+  header: DecodedJwt['header'],
+  payload: DecodedJwt['payload']
+): DecodedJwt {
+  return { header, payload, signature: '' };
+}
+
+const ids = (decoded: DecodedJwt, secret?: string) =>
+  lintJwt(decoded, { secret }).map(finding => finding.id);
+
+describe('lintJwt', () => {
+  const safePayload = {
+    sub: '1234567890',
+    iat: mockTimestamp,
+    exp: mockTimestamp + 900,
+  };
+
+  it('should report nothing for a well formed token', () => {
+    expect(ids(token({ alg: 'ES256', typ: 'JWT' }, safePayload))).toEqual([]);
+  });
+
+  it('should flag unsigned tokens as critical', () => {
+    const findings = lintJwt(token({ alg: 'none' }, safePayload));
+    expect(findings[0]).toMatchObject({
+      id: 'alg-none',
+      severity: 'critical',
+      location: 'header.alg',
+    });
+    expect(ids(token({ alg: 'NONE' }, safePayload))).toContain('alg-none');
+  });
+
+  it('should flag short and low entropy HMAC secrets', () => {
+    const decoded = token({ alg: 'HS256' }, safePayload);
+    expect(ids(decoded, 'your-256-bit-secret')).toEqual([
+      'short-secret',
+      'low-entropy-secret',
+    ]);
+    expect(ids(decoded, 'k7Qz1pX9vR2mW8sL4tY6bN0cJ3hF5gD!')).toEqual([]);
+  });
+
+  it('should require longer secrets for larger hashes', () => {
+    const secret = 'k7Qz1pX9vR2mW8sL4tY6bN0cJ3hF5gD!';
+    expect(ids(token({ alg: 'HS512' }, safePayload), secret)).toContain(
+      'short-secret'
+    );
+  });
+
+  it('should ignore the secret for asymmetric tokens', () => {
+    expect(ids(token({ alg: 'RS256' }, safePayload), 'secret')).toEqual([]);
+  });
+
+  it('should flag a missing exp claim', () => {
+    expect(ids(token({ alg: 'ES256' }, { sub: '1' }))).toEqual(['missing-exp']);
+  });
+
+  it('should flag long lifetimes', () => {
+    const findings = lintJwt(
+      token(
+        { alg: 'ES256' },
+        { iat: mockTimestamp, exp: mockTimestamp + 7 * 86400 }
+      )
+    );
+    expect(findings).toHaveLength(1);
+    expect(findings[0].id).toBe('long-lifetime');
+    expect(findings[0].severity).toBe('low');
+
+    const yearLong = lintJwt(
+      token({ alg: 'ES256' }, { exp: mockTimestamp + 365 * 86400 })
+    );
+    expect(yearLong[0].severity).toBe('high');
+  });
+
+  it('should honour a custom maximum lifetime', () => {
+    const findings = lintJwt(token({ alg: 'ES256' }, safePayload), {
+      maxLifetimeSeconds: 300,
+    });
+    expect(findings.map(finding => finding.id)).toEqual(['long-lifetime']);
+  });
+
+  it('should measure lifetimes without iat from the injected clock', () => {
+    const decoded = token({ alg: 'ES256' }, { exp: mockTimestamp + 3600 });
+    const clock = () => (mockTimestamp - 2 * 86400) * 1000;
+    expect(lintJwt(decoded).map(finding => finding.id)).toEqual([]);
+    expect(lintJwt(decoded, { clock }).map(finding => finding.id)).toEqual([
+      'long-lifetime',
+    ]);
+  });
+
+  it('should flag dangerous key headers', () => {
+    const decoded = token(
+      {
+        alg: 'RS256',
+        jku: 'https://attacker.example.com/jwks.json',
+        x5u: 'https://attacker.example.com/cert.pem',
+        jwk: { kty: 'RSA' },
+        crit: ['exp'],
+      },
+      safePayload
+    );
+    expect(ids(decoded)).toEqual([
+      'header-jku',
+      'header-x5u',
+      'header-jwk',
+      'header-crit',
+    ]);
+  });
+
+  it('should flag personal data in the payload', () => {
+    const findings = lintJwt(
+      token(
+        { alg: 'ES256' },
+        {
+          ...safePayload,
+          email: 'john.doe@example.com',
+          contact: { mobile: '+1 415 555 0100' },
+          aliases: ['jane@example.org'],
+        }
+      )
+    );
+    expect(findings.map(finding => finding.location)).toEqual([
+      'payload.email',
+      'payload.contact.mobile',
+      'payload.aliases[0]',
+    ]);
+  });
+
+  it('should not mistake numeric identifiers for phone numbers', () => {
+    expect(ids(token({ alg: 'ES256' }, safePayload))).toEqual([]);
+  });
+
+  it('should sort findings by severity', () => {
+    const findings = lintJwt(
+      token({ alg: 'none', jku: 'https://example.com' }, { email: 'a@b.co' })
+    );
+    expect(findings.map(finding => finding.severity)).toEqual([
+      'critical',
+      'high',
+      'medium',
+      'low',
+    ]);
+  });
+});
+
+describe('estimateSecretEntropy', () => {
+  it('should return zero for empty and repeated secrets', () => {
+    expect(estimateSecretEntropy('')).toBe(0);
+    expect(estimateSecretEntropy('aaaa')).toBe(0);
+  });
+
+  it('should grow with distinct characters', () => {
+    expect(estimateSecretEntropy('abcd')).toBe(8);
+    expect(estimateSecretEntropy('abcdefgh')).toBe(24);
+  });
+});
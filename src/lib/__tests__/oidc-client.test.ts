@@ -0,0 +1,168 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import {
+  fetchDiscoveryDocument,
+  getDiscoveryUrl,
+  introspectToken,
+  verifyTokenOnline,
+} from '../oidc-client';
+import {
+  startMockOidcServer,
+  type MockOidcServer,
+} from '../../test/mock-oidc-server';
+
+const credentials = { clientId: 'tools', clientSecret: 's3cret:with/chars' };
+
+let server: MockOidcServer;
+
+beforeAll(async () => {
+  server = await startMockOidcServer(credentials);
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+describe('getDiscoveryUrl', () => {
+  it('should append the well-known path once', () => {
+    expect(getDiscoveryUrl('https://auth.example.com/')).toBe(
+      'https://auth.example.com/.well-known/openid-configuration'
+    );
+    expect(
+      getDiscoveryUrl(
+        'https://auth.example.com/.well-known/openid-configuration'
+      )
+    ).toBe('https://auth.example.com/.well-known/openid-configuration');
+  });
+});
+
+describe('fetchDiscoveryDocument', () => {
+  it('should read the discovery document', async () => {
+    const discovery = await fetchDiscoveryDocument(server.url);
+    expect(discovery.issuer).toBe(server.url);
+    expect(discovery.jwks_uri).toBe(`${server.url}/jwks`);
+    expect(discovery.introspection_endpoint).toBe(`${server.url}/introspect`);
+  });
+
+  it('should reject a document that names another issuer', async () => {
+    const impostor = await startMockOidcServer({
+      issuer: 'https://auth.example.com',
+    });
+    try {
+      await expect(fetchDiscoveryDocument(impostor.url)).rejects.toThrow(
+        `Discovery document names issuer "https://auth.example.com", not ${impostor.url}`
+      );
+    } finally {
+      await impostor.close();
+    }
+  });
+
+  it('should report HTTP errors', async () => {
+    await expect(
+      fetchDiscoveryDocument(`${server.url}/missing`)
+    ).rejects.toThrow('responded with HTTP 404');
+  });
+});
+
+describe('introspectToken', () => {
+  it('should authenticate the client', async () => {
+    const token = await server.issueToken({ scope: 'read' });
+    await expect(
+      introspectToken(`${server.url}/introspect`, token)
+    ).rejects.toThrow('HTTP 401');
+
+    const response = await introspectToken(
+      `${server.url}/introspect`,
+      token,
+      credentials
+    );
+    expect(response.active).toBe(true);
+    expect(response.scope).toBe('read');
+  });
+});
+
+describe('verifyTokenOnline', () => {
+  it('should accept an active token with a valid signature', async () => {
+    const token = await server.issueToken({ sub: 'alice', scope: 'openid' });
+    const result = await verifyTokenOnline(token, {
+      issuerUrl: server.url,
+      ...credentials,
+    });
+
+    expect(result.isValid).toBe(true);
+    expect(result.signature?.key?.kid).toBe('mock-oidc-key');
+    expect(result.introspection).toMatchObject({
+      active: true,
+      sub: 'alice',
+      scope: 'openid',
+    });
+  });
+
+  it('should reject a revoked token even though its signature is valid', async () => {
+    const token = await server.issueToken({ sub: 'bob' });
+    server.revokeToken(token);
+    const result = await verifyTokenOnline(token, {
+      issuerUrl: server.url,
+      ...credentials,
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.signature?.isValid).toBe(true);
+    expect(result.introspection?.active).toBe(false);
+    expect(result.error).toBe(
+      'The authorization server reports the token as inactive'
+    );
+  });
+
+  it('should reject a token issued by another issuer', async () => {
+    const other = await startMockOidcServer();
+    try {
+      const token = await other.issueToken({ sub: 'carol' });
+      const result = await verifyTokenOnline(token, {
+        issuerUrl: server.url,
+        ...credentials,
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.signature).toBeUndefined();
+      expect(result.error).toBe(
+        `The token was issued by "${other.url}", not ${server.url}`
+      );
+    } finally {
+      await other.close();
+    }
+  });
+
+  it('should verify the signature alone when the issuer offers no introspection', async () => {
+    // Drops introspection_endpoint from the discovery document
+    const fetchWithoutIntrospection: typeof fetch = async (input, init) => {
+      const response = await fetch(input, init);
+      if (!String(input).endsWith('/.well-known/openid-configuration')) {
+        return response;
+      }
+      const discovery = await response.json();
+      delete discovery.introspection_endpoint;
+      return Response.json(discovery);
+    };
+    const token = await server.issueToken({ sub: 'dave' });
+    const result = await verifyTokenOnline(
+      token,
+      { issuerUrl: server.url },
+      fetchWithoutIntrospection
+    );
+
+    expect(result.isValid).toBe(true);
+    expect(result.signature?.isValid).toBe(true);
+    expect(result.introspectionAvailable).toBe(false);
+    expect(result.introspection).toBeUndefined();
+    expect(result.error).toBeUndefined();
+  });
+
+  it('should report discovery failures', async () => {
+    const result = await verifyTokenOnline('a.b.c', {
+      issuerUrl: `${server.url}/unknown`,
+    });
+    expect(result.isValid).toBe(false);
+    expect(result.error).toMatch(/^Discovery failed: /);
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest';
+import {
+  explainFlavorPattern,
+  toJavaScriptEquivalent,
+  toSourceSpan,
+  translateRegex,
+  validateFlavorPattern,
+} from '../regex-flavors';
+
+describe('validateFlavorPattern', () => {
+  it('should report features the flavor does not support', () => {
+    const result = validateFlavorPattern('(?<=\\$)\\d+', 'go');
+    expect(result.isValid).toBe(false);
+    expect(result.error).toBe(
+      '"(?<=" at position 0 is not supported in Go (RE2): Lookbehind (?<=…) and (?<!…)'
+    );
+    expect(result.unsupported.map(issue => issue.feature)).toEqual([
+      'lookbehind',
+    ]);
+  });
+
+  it('should report possessive quantifiers and Python syntax in JavaScript', () => {
+    expect(
+      validateFlavorPattern('a++b', 'javascript').unsupported[0]
+    ).toMatchObject({ feature: 'possessive-quantifier', raw: '+', start: 2 });
+    expect(
+      validateFlavorPattern('(?P<year>\\d{4})', 'javascript').unsupported[0]
+        .feature
+    ).toBe('python-named-group');
+  });
+
+  it('should accept syntax that is valid in the flavor', () => {
+    expect(
+      validateFlavorPattern('(?P<year>\\d{4})-(?P=year)', 'python').isValid
+    ).toBe(true);
+    expect(validateFlavorPattern('a(?>bc|b)c++\\z', 'pcre').isValid).toBe(true);
+    expect(validateFlavorPattern('[]a[:alpha:]]+', 'posix').isValid).toBe(true);
+    expect(validateFlavorPattern('(?i)\\Ahello\\z', 'go').isValid).toBe(true);
+  });
+
+  it('should report structural errors at their position in the source', () => {
+    expect(validateFlavorPattern('(?P<year>\\d{4}', 'python')).toEqual({
+      isValid: false,
+      error: 'Unterminated group at position 14',
+      unsupported: [],
+    });
+    expect(validateFlavorPattern('(?P<a>x)*)', 'python').error).toBe(
+      "Unmatched ')' at position 9"
+    );
+  });
+});
+
+describe('translateRegex', () => {
+  it('should translate named groups and backreferences', () => {
+    expect(
+      translateRegex('(?<year>\\d{4})-\\k<year>', 'javascript', 'python')
+    ).toEqual({
+      pattern: '(?P<year>\\d{4})-(?P=year)',
+      flags: '',
+      notes: [],
+      unsupported: [],
+    });
+    expect(
+      translateRegex('(?P<year>\\d{4})-(?P=year)', 'python', 'java').pattern
+    ).toBe('(?<year>\\d{4})-\\k<year>');
+  });
+
+  it('should move flags between inline modifiers and JavaScript flags', () => {
+    expect(
+      translateRegex('(?i)\\Aab\\Z', 'python', 'javascript')
+    ).toMatchObject({ pattern: '^ab$', flags: 'i' });
+    const toGo = translateRegex('ab$', 'javascript', 'go', 'gim');
+    expect(toGo.pattern).toBe('(?im)ab$');
+    expect(toGo.notes).toContain(
+      'The g flag has no pattern equivalent; use the find-all function of the target language'
+    );
+  });
+
+  it('should map string anchors by their meaning in the source flavor', () => {
+    expect(translateRegex('a\\Z', 'python', 'pcre').pattern).toBe('a\\z');
+    expect(translateRegex('a\\Z', 'pcre', 'python').pattern).toBe(
+      'a(?=\\n?\\Z)'
+    );
+    expect(translateRegex('a\\z', 'go', 'python').pattern).toBe('a\\Z');
+  });
+
+  it('should rewrite escapes and classes the target spells differently', () => {
+    expect(
+      translateRegex('[[:alpha:]]\\x{263A}\\pL', 'pcre', 'javascript')
+    ).toMatchObject({ pattern: '[a-zA-Z]\\u263A\\p{L}', flags: 'u' });
+    expect(translateRegex('[[:digit:]]', 'go', 'java').pattern).toBe(
+      '[\\p{Digit}]'
+    );
+    expect(translateRegex('\\d+\\s', 'javascript', 'posix').pattern).toBe(
+      '[[:digit:]]+[[:space:]]'
+    );
+    expect(translateRegex('\\Qa.b\\E(?#note)', 'pcre', 'javascript')).toEqual({
+      pattern: 'a\\.b',
+      flags: '',
+      notes: ['Comments were removed'],
+      unsupported: [],
+    });
+  });
+
+  it('should list constructs without an equivalent', () => {
+    const result = translateRegex('(?<=a)b(?>c)', 'pcre', 'go');
+    expect(result.pattern).toBe('(?<=a)b(?>c)');
+    expect(result.unsupported.map(issue => [issue.raw, issue.start])).toEqual([
+      ['(?<=', 0],
+      ['(?>', 7],
+    ]);
+  });
+
+  it('should produce patterns that match like the source', () => {
+    const { pattern, flags } = translateRegex(
+      '(?i)(?P<word>[[:alpha:]]+)\\s(?P=word)',
+      'python',
+      'javascript'
+    );
+    expect(new RegExp(pattern, flags).exec('say Hello hello')?.groups).toEqual({
+      word: 'Hello',
+    });
+  });
+});
+
+describe('toJavaScriptEquivalent', () => {
+  it('should approximate constructs JavaScript lacks', () => {
+    expect(toJavaScriptEquivalent('a(?>b+)++\\K\\R', 'pcre')).toEqual({
+      pattern: 'a(?:b+)+(?:)(?:\\r\\n|[\\n\\v\\f\\r\\u0085\\u2028\\u2029])',
+      flags: '',
+    });
+  });
+});
+
+describe('toSourceSpan', () => {
+  it('should map spans of the JavaScript equivalent back to the source', () => {
+    // (?P<n>a)\Z becomes (?<n>a)(?=\n?$)
+    expect(toSourceSpan('(?P<n>a)\\Z', 'pcre', 5, 6)).toEqual({
+      start: 6,
+      end: 7,
+    });
+    expect(toSourceSpan('(?P<n>a)\\Z', 'pcre', 7, 15)).toEqual({
+      start: 8,
+      end: 10,
+    });
+    expect(toSourceSpan('ab', 'javascript', 0, 1)).toEqual({
+      start: 0,
+      end: 1,
+    });
+  });
+});
+
+describe('explainFlavorPattern', () => {
+  it('should explain flavor-specific constructs in their own syntax', () => {
+    const tree = explainFlavorPattern('(?i)a(?>bc)++\\Z', 'pcre');
+    expect(tree.map(node => [node.component, node.start, node.end])).toEqual([
+      ['(?i)', 0, 4],
+      ['a', 4, 5],
+      ['++', 11, 13],
+      ['\\Z', 13, 15],
+    ]);
+    expect(tree[2].explanation).toContain('possessive');
+    expect(tree[2].children[0]).toMatchObject({
+      component: '(?>bc)',
+      explanation:
+        'Atomic group: once it has matched, the engine never backtracks into it',
+    });
+    expect(tree[3].explanation).toBe(
+      'Matches the end of the string, or before a line break at its end'
+    );
+  });
+
+  it('should describe Python semantics', () => {
+    const [group, anchor] = explainFlavorPattern('(?P<n>\\d+)$', 'python');
+    expect(group.component).toBe('(?P<n>\\d+)');
+    expect(group.children[0].children[0].explanation).toBe(
+      'Matches any Unicode decimal digit'
+    );
+    expect(anchor.explanation).toBe(
+      'Matches the end of the string, or before a line break at its end'
+    );
+  });
+
+  it('should collapse constructs that expand into several nodes', () => {
+    expect(
+      explainFlavorPattern('\\Qa.b\\E', 'pcre').map(node => node.explanation)
+    ).toEqual(['Matches the text "a.b" literally']);
+  });
+});
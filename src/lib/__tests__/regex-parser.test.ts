@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { parseRegex, walkRegexAst } from '../regex-parser';
+
+describe('parseRegex', () => {
+  it('should parse quantifiers with their targets and positions', () => {
+    const { body } = parseRegex('a\\d{2,3}?');
+    expect(body).toMatchObject({
+      type: 'sequence',
+      elements: [
+        { type: 'character', value: 'a', start: 0, end: 1 },
+        {
+          type: 'quantifier',
+          min: 2,
+          max: 3,
+          greedy: false,
+          symbol: '{2,3}?',
+          raw: '\\d{2,3}?',
+          target: { type: 'character-type', kind: 'digit' },
+        },
+      ],
+    });
+  });
+
+  it('should number capturing groups in opening order', () => {
+    const ast = parseRegex('((a)(?:b)(?<c>c))');
+    const groups = walkRegexAst(ast.body).filter(node => node.type === 'group');
+    expect(groups.map(group => [group.raw, group.kind, group.index])).toEqual([
+      ['((a)(?:b)(?<c>c))', 'capturing', 1],
+      ['(a)', 'capturing', 2],
+      ['(?:b)', 'non-capturing', undefined],
+      ['(?<c>c)', 'named', 3],
+    ]);
+    expect(ast.groupCount).toBe(3);
+    expect(ast.groupNames).toEqual(['c']);
+  });
+
+  it('should parse alternation inside groups and lookarounds', () => {
+    const { body } = parseRegex('(?<=\\$)(?:a|b|)');
+    expect(body).toMatchObject({
+      elements: [
+        { type: 'group', kind: 'lookbehind' },
+        {
+          type: 'group',
+          body: {
+            type: 'alternation',
+            alternatives: [
+              { raw: 'a' },
+              { raw: 'b' },
+              { raw: '', elements: [] },
+            ],
+          },
+        },
+      ],
+    });
+  });
+
+  it('should parse character classes with ranges and class escapes', () => {
+    const { body } = parseRegex('[^a-z\\d\\]\\b-]');
+    expect(body.type === 'sequence' && body.elements[0]).toMatchObject({
+      type: 'character-class',
+      negated: true,
+      items: [
+        { type: 'range', from: { value: 'a' }, to: { value: 'z' } },
+        { type: 'character-type', kind: 'digit' },
+        { type: 'character', value: ']' },
+        { type: 'character', value: '\b' },
+        { type: 'character', value: '-' },
+      ],
+    });
+  });
+
+  it('should parse assertions and backreferences', () => {
+    const { body } = parseRegex('^\\b(a)\\1\\B$');
+    expect(
+      body.type === 'sequence' &&
+        body.elements.map(node =>
+          node.type === 'assertion' ? node.kind : node.type
+        )
+    ).toEqual([
+      'start',
+      'word-boundary',
+      'group',
+      'backreference',
+      'not-word-boundary',
+      'end',
+    ]);
+  });
+
+  it('should resolve backreferences to groups that open later', () => {
+    const { body } = parseRegex('\\1(a)');
+    expect(body.type === 'sequence' && body.elements[0]).toMatchObject({
+      type: 'backreference',
+      ref: 1,
+    });
+  });
+
+  it('should read escapes beyond the group count as legacy octal', () => {
+    const { body } = parseRegex('\\12');
+    expect(body.type === 'sequence' && body.elements[0]).toMatchObject({
+      type: 'character',
+      value: '\n',
+    });
+  });
+
+  it('should parse Unicode property escapes and code points in Unicode mode', () => {
+    const { body } = parseRegex('\\P{Script=Greek}\\u{1F600}😀', 'u');
+    expect(body).toMatchObject({
+      elements: [
+        {
+          type: 'unicode-property',
+          negated: true,
+          name: 'Script',
+          value: 'Greek',
+        },
+        { type: 'character', value: '😀', raw: '\\u{1F600}' },
+        { type: 'character', value: '😀', raw: '😀' },
+      ],
+    });
+  });
+
+  it('should treat \\p and lone braces as literals outside Unicode mode', () => {
+    const { body } = parseRegex('\\p{L}');
+    expect(
+      body.type === 'sequence' &&
+        body.elements.map(node => node.type === 'character' && node.value)
+    ).toEqual(['p', '{', 'L', '}']);
+  });
+
+  it('should report syntax errors with their position', () => {
+    expect(() => parseRegex('(a')).toThrow('Unterminated group at position 2');
+    expect(() => parseRegex('a)')).toThrow("Unmatched ')' at position 1");
+    expect(() => parseRegex('*a')).toThrow('Nothing to repeat');
+    expect(() => parseRegex('[z-a]')).toThrow('Range out of order');
+    expect(() => parseRegex('\\k<x>(?<y>.)')).toThrow(
+      'Invalid named reference'
+    );
+    expect(() => parseRegex('\\a', 'u')).toThrow('Invalid escape');
+  });
+});
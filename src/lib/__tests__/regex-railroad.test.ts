@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { buildRailroadDiagram, type RailroadDiagram } from '../regex-railroad';
+
+/**
+ * Builds a diagram that is expected to exist
+ * @param pattern - The regex pattern
+ * @param flags - The regex flags
+ * @returns The diagram
+ */
+function diagramFor(pattern: string, flags = ''): RailroadDiagram {
+  const diagram = buildRailroadDiagram(pattern, flags);
+  expect(diagram).not.toBeNull();
+  return diagram!;
+}
+
+describe('buildRailroadDiagram', () => {
+  it('should return null for empty or invalid patterns', () => {
+    expect(buildRailroadDiagram('')).toBeNull();
+    expect(buildRailroadDiagram('(a')).toBeNull();
+  });
+
+  it('should lay out a sequence of boxes with their source spans', () => {
+    const diagram = diagramFor('\\d{3}-\\d{4}');
+    expect(
+      diagram.boxes.map(box => [box.kind, box.label, box.start, box.end])
+    ).toEqual([
+      ['special', 'digit', 0, 2],
+      ['literal', '"-"', 5, 6],
+      ['special', 'digit', 6, 8],
+    ]);
+    expect(
+      diagram.labels.map(label => [label.text, label.start, label.end])
+    ).toEqual([
+      ['3 times', 2, 5],
+      ['4 times', 8, 11],
+    ]);
+
+    // Boxes sit on one track, left to right, inside the diagram
+    const [first, second, third] = diagram.boxes;
+    expect(new Set(diagram.boxes.map(box => box.y)).size).toBe(1);
+    expect(first.x + first.width).toBeLessThan(second.x);
+    expect(second.x + second.width).toBeLessThan(third.x);
+    expect(third.x + third.width).toBeLessThan(diagram.width);
+  });
+
+  it('should merge runs of characters and offset regex literals', () => {
+    expect(
+      diagramFor('/ab|c/i').boxes.map(box => [box.label, box.start, box.end])
+    ).toEqual([
+      ['"ab"', 1, 3],
+      ['"c"', 4, 5],
+    ]);
+  });
+
+  it('should stack alternatives below the main track', () => {
+    const diagram = diagramFor('cat|dog|bird');
+    const [cat, dog, bird] = diagram.boxes;
+    expect(cat.y).toBeLessThan(dog.y);
+    expect(dog.y).toBeLessThan(bird.y);
+    expect(bird.y + bird.height).toBeLessThanOrEqual(diagram.height);
+    expect(diagram.paths.join('')).toContain('a8 8 0 0 1 8 8');
+  });
+
+  it('should frame groups with their number, name or kind', () => {
+    const diagram = diagramFor('(?<year>\\d+)(x)(?:y)(?<!z)');
+    expect(
+      diagram.groups.map(group => [group.label, group.isLookaround])
+    ).toEqual([
+      ['group #1 <year>', false],
+      ['group #2', false],
+      ['negative lookbehind', true],
+    ]);
+    const [year] = diagram.groups;
+    const [digit] = diagram.boxes;
+    expect([year.start, year.end]).toEqual([0, 12]);
+    expect(digit.x).toBeGreaterThan(year.x);
+    expect(digit.y).toBeGreaterThan(year.y);
+  });
+
+  it('should describe repetitions and bypass optional items', () => {
+    expect(
+      diagramFor('a*?b{2,5}c{2,}').labels.map(label => label.text)
+    ).toEqual(['0+ times, lazy', '2–5 times', '2+ times']);
+
+    // An optional item adds a bypass above it but no label
+    const optional = diagramFor('a?');
+    const plain = diagramFor('a');
+    expect(optional.labels).toEqual([]);
+    expect(optional.height).toBeGreaterThan(plain.height);
+  });
+
+  it('should label anchors according to the multiline flag', () => {
+    expect(diagramFor('^a$').boxes.map(box => box.label)).toEqual([
+      'start of string',
+      '"a"',
+      'end of string',
+    ]);
+    expect(diagramFor('^\\b\\1(a)', 'm').boxes.map(box => box.label)).toEqual([
+      'start of line',
+      'word boundary',
+      'back-reference #1',
+      '"a"',
+    ]);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { runRegexRequest, startRegexRun } from '../regex-runner';
+
+describe('runRegexRequest', () => {
+  it('should match and replace', () => {
+    const result = runRegexRequest({
+      pattern: '(\\d+)',
+      testString: 'a1b22',
+      flags: 'g',
+      replacement: '<$1>',
+    });
+    expect(result.testResult.matches.map(match => match[0])).toEqual([
+      '1',
+      '22',
+    ]);
+    expect(result.replaceResult?.output).toBe('a<1>b<22>');
+  });
+
+  it('should skip replacing without a replacement', () => {
+    const result = runRegexRequest({
+      pattern: 'a',
+      testString: 'a',
+      flags: '',
+    });
+    expect(result.replaceResult).toBeNull();
+  });
+});
+
+describe('startRegexRun', () => {
+  it('should match inline where workers are unavailable', async () => {
+    const { result } = startRegexRun({
+      pattern: 'b',
+      testString: 'abc',
+      flags: '',
+    });
+    expect((await result).testResult.matches[0].index).toBe(1);
+  });
+});
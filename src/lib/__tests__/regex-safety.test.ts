@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeRegexSafety } from '../regex-safety';
+
+/**
+ * Lists the finding ids and locations for a pattern
+ * @param pattern - The regex pattern
+ * @param flags - The regex flags
+ * @returns One id and location pair per finding
+ */
+function findingsFor(pattern: string, flags = '') {
+  return analyzeRegexSafety(pattern, flags).map(finding => [
+    finding.id,
+    finding.location,
+  ]);
+}
+
+describe('analyzeRegexSafety', () => {
+  it('should flag nested quantifiers', () => {
+    expect(findingsFor('^(a+)+$')).toEqual([
+      ['redos-nested-quantifier', 'Sub-pattern: (a+)+ at position 1'],
+    ]);
+    expect(findingsFor('(\\w+\\s?)*$')[0][0]).toBe('redos-nested-quantifier');
+  });
+
+  it('should not flag repetitions separated by required characters', () => {
+    expect(findingsFor('(\\w+,)*\\w+')).toEqual([]);
+    expect(findingsFor('(\\d{3})+')).toEqual([]);
+  });
+
+  it('should flag overlapping alternatives in a repetition', () => {
+    const [finding] = analyzeRegexSafety('^(\\w|\\d)+$');
+    expect(finding).toMatchObject({
+      id: 'redos-overlapping-alternation',
+      severity: 'high',
+      location: 'Sub-pattern: (\\w|\\d)+ at position 1',
+    });
+    expect(finding.explanation).toContain('can both match "0"');
+  });
+
+  it('should use the flags when comparing alternatives', () => {
+    expect(findingsFor('(a|A)*')).toEqual([]);
+    expect(findingsFor('(a|A)*', 'i')[0][0]).toBe(
+      'redos-overlapping-alternation'
+    );
+  });
+
+  it('should flag adjacent overlapping quantifiers', () => {
+    expect(findingsFor('\\d+\\d*x')).toEqual([
+      ['redos-adjacent-quantifiers', 'Sub-pattern: \\d+…\\d* at position 0'],
+    ]);
+    expect(findingsFor('\\s*\\S+\\s*')).toEqual([]);
+    expect(findingsFor('.*-.*')).toEqual([]);
+  });
+
+  it('should not flag the default phone number pattern', () => {
+    expect(findingsFor('\\d{3}-\\d{3}-\\d{4}')).toEqual([]);
+  });
+
+  it('should return no findings for an unparseable pattern', () => {
+    expect(findingsFor('(a+')).toEqual([]);
+  });
+});
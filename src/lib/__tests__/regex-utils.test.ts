@@ -3,7 +3,11 @@ import {
   validateRegexPattern,
   testRegexPattern,
   explainRegexPattern,
+  explainRegexTree,
+  getCaptureGroupNames,
+  getMatchGroups,
   highlightMatches,
+  replaceWithPattern,
 } from '../regex-utils';
 
 describe('validateRegexPattern', () => {
@@ -61,6 +65,11 @@ describe('testRegexPattern', () => {
     expect(result.error).toBe('Pattern is empty');
   });
 
+  it('should record capture group offsets', () => {
+    const result = testRegexPattern('(a)(b)?', 'xa', 'g');
+    expect(result.matches[0].indices).toEqual([[1, 2], [1, 2], undefined]);
+  });
+
   it('should handle invalid pattern', () => {
     const result = testRegexPattern('[', 'abc');
     expect(result.isValid).toBe(false);
@@ -87,6 +96,70 @@ describe('explainRegexPattern', () => {
     const result = explainRegexPattern('');
     expect(result.length).toBe(0);
   });
+
+  it('should explain escapes inside character classes once, as class members', () => {
+    const result = explainRegexPattern('[\\d.]');
+    expect(result.map(item => item.component)).toEqual(['[\\d.]', '\\d', '.']);
+    expect(result[2].explanation).toBe('Matches the character "."');
+  });
+
+  it('should treat escaped brackets as literals', () => {
+    const result = explainRegexPattern('\\[a\\]');
+    expect(result.map(item => item.component)).toEqual(['\\[', 'a', '\\]']);
+    expect(result[0].explanation).toBe('Matches a literal "["');
+  });
+});
+
+describe('explainRegexTree', () => {
+  it('should nest quantifier targets and group contents', () => {
+    const [group] = explainRegexTree('((a|b)\\d)+');
+    expect(group.component).toBe('+');
+    expect(group.start).toBe(9);
+
+    const [outer] = group.children;
+    expect(outer.explanation).toBe('Capturing group #1');
+    expect(outer.children.map(child => child.component)).toEqual([
+      '(a|b)',
+      '\\d',
+    ]);
+    expect(outer.children[0].children[0].explanation).toBe(
+      'Matches any one of 2 alternatives'
+    );
+  });
+
+  it('should explain named groups and backreferences', () => {
+    const tree = explainRegexTree('(?<q>[\'"]).*?\\k<q>');
+    expect(tree.map(node => node.explanation)).toEqual([
+      'Named capturing group "q" (#1)',
+      'Repeats the item below zero or more times, as few times as possible (lazy)',
+      'Matches the same text as the group named "q"',
+    ]);
+  });
+
+  it('should use the flags to explain anchors and the dot', () => {
+    const tree = explainRegexTree('^.$', 'ms');
+    expect(tree.map(node => node.explanation)).toEqual([
+      expect.stringContaining('m: Multi-line'),
+      'Matches the start of a line',
+      'Matches any character, including line breaks',
+      'Matches the end of a line',
+    ]);
+  });
+
+  it('should explain Unicode property escapes in Unicode mode', () => {
+    const [property] = explainRegexTree('/\\p{Script=Greek}/u').slice(1);
+    expect(property).toMatchObject({
+      component: '\\p{Script=Greek}',
+      explanation:
+        'Matches any character with the Unicode property Script=Greek',
+      start: 1,
+      end: 17,
+    });
+  });
+
+  it('should return no explanation for an unparseable pattern', () => {
+    expect(explainRegexTree('(a')).toEqual([]);
+  });
 });
 
 describe('highlightMatches', () => {
@@ -134,6 +207,63 @@ describe('highlightMatches', () => {
     });
   });
 
+  it('should nest capture groups inside matches', () => {
+    const pattern = '(?<year>\\d{4})-((\\d)\\d)';
+    const { matches } = testRegexPattern(pattern, 'on 2024-05.', 'g');
+    const result = highlightMatches(
+      'on 2024-05.',
+      matches,
+      getCaptureGroupNames(pattern)
+    );
+
+    expect(result).toEqual([
+      { text: 'on ', isMatch: false },
+      {
+        text: '2024-05',
+        isMatch: true,
+        matchIndex: 0,
+        children: [
+          {
+            text: '2024',
+            isMatch: true,
+            matchIndex: 0,
+            groupIndex: 1,
+            groupName: 'year',
+            start: 3,
+            end: 7,
+          },
+          { text: '-', isMatch: true, matchIndex: 0 },
+          {
+            text: '05',
+            isMatch: true,
+            matchIndex: 0,
+            groupIndex: 2,
+            start: 8,
+            end: 10,
+            children: [
+              {
+                text: '0',
+                isMatch: true,
+                matchIndex: 0,
+                groupIndex: 3,
+                start: 8,
+                end: 9,
+              },
+              { text: '5', isMatch: true, matchIndex: 0 },
+            ],
+          },
+        ],
+      },
+      { text: '.', isMatch: false },
+    ]);
+  });
+
+  it('should clip lookaround groups to the match', () => {
+    const { matches } = testRegexPattern('a(?=(bc))', 'abc');
+    const [match] = highlightMatches('abc', matches);
+    expect(match.children).toBeUndefined();
+  });
+
   it('should handle no matches', () => {
     const result = highlightMatches('abc', []);
     expect(result.length).toBe(1);
@@ -152,3 +282,87 @@ describe('highlightMatches', () => {
     });
   });
 });
+
+describe('getCaptureGroupNames', () => {
+  it('should list names by group number', () => {
+    expect(getCaptureGroupNames('(a)(?:b)(?<c>c)(d)')).toEqual([
+      undefined,
+      undefined,
+      'c',
+      undefined,
+    ]);
+  });
+
+  it('should return no names for an unparseable pattern', () => {
+    expect(getCaptureGroupNames('(')).toEqual([]);
+  });
+});
+
+describe('getMatchGroups', () => {
+  it('should describe every group, including ones that did not participate', () => {
+    const { matches } = testRegexPattern('(?<word>\\w+)(!)?', 'hi');
+    expect(getMatchGroups(matches[0], [undefined, 'word'])).toEqual([
+      { index: 1, name: 'word', value: 'hi', start: 0, end: 2 },
+      { index: 2 },
+    ]);
+  });
+});
+
+describe('replaceWithPattern', () => {
+  it('should replace every match with expanded group references', () => {
+    const result = replaceWithPattern(
+      '(\\d{3})-(?<rest>\\d{4})',
+      'a 555-1234, b 555-9876',
+      '[$1 $<rest>]',
+      'g'
+    );
+    expect(result.isValid).toBe(true);
+    expect(result.output).toBe('a [555 1234], b [555 9876]');
+    expect(result.replacements[1]).toEqual({
+      matchIndex: 1,
+      start: 14,
+      end: 22,
+      match: '555-9876',
+      groups: ['555', '9876'],
+      replacement: '[555 9876]',
+      outputStart: 16,
+      outputEnd: 26,
+    });
+    expect(result.segments).toEqual([
+      { text: 'a ', isReplacement: false },
+      { text: '[555 1234]', isReplacement: true, replacementIndex: 0 },
+      { text: ', b ', isReplacement: false },
+      { text: '[555 9876]', isReplacement: true, replacementIndex: 1 },
+    ]);
+  });
+
+  it('should only replace the first match without the global flag', () => {
+    expect(replaceWithPattern('o', 'foo', '0').output).toBe('f0o');
+  });
+
+  it.each([
+    ['$&!', 'b', 'g'],
+    ["<$`|$'>", 'b', 'g'],
+    ['$$1 $0 $3 $10 $01', '(a)(b)', 'g'],
+    ['$11$12', '(a)(b)(c)(d)(e)(f)(g)(h)(i)(j)(k)', ''],
+    ['$<x>$<missing>$<', '(?<x>b)', 'g'],
+    ['$<x>', '(b)', 'g'],
+    ['-', 'x*', 'g'],
+    ['$', '(?:)', 'gu'],
+  ])(
+    'should expand replacement #%# like String.prototype.replace',
+    (template, pattern, flags) => {
+      const input = 'abcdefghijklab 😀';
+      expect(replaceWithPattern(pattern, input, template, flags).output).toBe(
+        input.replace(new RegExp(pattern, flags), template)
+      );
+    }
+  );
+
+  it('should report invalid patterns', () => {
+    const result = replaceWithPattern('(', 'abc', 'x');
+    expect(result.isValid).toBe(false);
+    expect(result.output).toBe('abc');
+    expect(result.error).toBeDefined();
+  });
+});
@@ -0,0 +1,224 @@
+import { describe, it, expect } from 'vitest';
+import {
+  decodeSamlMessage,
+  formatXml,
+  generateSampleSamlResponse,
+  isSamlTimeReached,
+  lintSamlMessage,
+  samlAssertionToJwtPayload,
+  SAML_ASSERTION_NS,
+  SAML_PROTOCOL_NS,
+} from '../saml-utils';
+
+// 2024-01-01T00:00:00Z
+const mockNow = 1704067200000;
+const clock = () => mockNow;
+const mockTimestamp = mockNow / 1000;
+
+const authnRequest = `<samlp:AuthnRequest xmlns:samlp="${SAML_PROTOCOL_NS}" xmlns:saml="${SAML_ASSERTION_NS}" ID="_req1" Version="2.0" IssueInstant="2024-01-01T00:00:00Z" AssertionConsumerServiceURL="https://sp.example.com/acs"><saml:Issuer>https://sp.example.com</saml:Issuer></samlp:AuthnRequest>`;
+
+/**
+ * Deflates and base64 encodes a message like the HTTP redirect binding
+ */
+async function deflateToBase64(xml: string): Promise<string> {
+  const stream = new Response(new TextEncoder().encode(xml)).body!.pipeThrough(
+    new CompressionStream('deflate-raw')
+  );
+  const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+  return btoa(String.fromCharCode(...bytes));
+}
+
+/**
+ * Builds a response whose assertion is valid between the given times
+ */
+function buildResponse(
+  notBefore: string,
+  notOnOrAfter: string,
+  signature = ''
+): string {
+  return `<samlp:Response xmlns:samlp="${SAML_PROTOCOL_NS}" xmlns:saml="${SAML_ASSERTION_NS}" ID="_r"><samlp:Status><samlp:StatusCode Value="urn:oasis:names:tc:SAML:2.0:status:Success"/></samlp:Status><saml:Assertion ID="_a" IssueInstant="${notBefore}"><saml:Issuer>https://idp.example.com</saml:Issuer>${signature}<saml:Subject><saml:NameID>jane</saml:NameID></saml:Subject><saml:Conditions NotBefore="${notBefore}" NotOnOrAfter="${notOnOrAfter}"><saml:AudienceRestriction><saml:Audience>https://sp.example.com</saml:Audience></saml:AudienceRestriction></saml:Conditions></saml:Assertion></samlp:Response>`;
+}
+
+describe('decodeSamlMessage', () => {
+  it('should decode a base64 POST binding response', async () => {
+    const result = await decodeSamlMessage(generateSampleSamlResponse(clock));
+    expect(result.isValid).toBe(true);
+
+    const decoded = result.decoded!;
+    expect(decoded.messageType).toBe('Response');
+    expect(decoded.encoding).toBe('base64');
+    expect(decoded.issuer).toBe('https://idp.example.com');
+    expect(decoded.destination).toBe('https://sp.example.com/acs');
+    expect(decoded.statusCode).toBe(
+      'urn:oasis:names:tc:SAML:2.0:status:Success'
+    );
+    expect(decoded.hasSignatureElement).toBe(false);
+    expect(decoded.assertions).toHaveLength(1);
+
+    const assertion = decoded.assertions[0];
+    expect(assertion.subject).toEqual({
+      nameId: 'john.doe@example.com',
+      format: 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress',
+      recipient: 'https://sp.example.com/acs',
+      inResponseTo: '_request1',
+      notOnOrAfter: mockTimestamp + 300,
+    });
+    expect(assertion.conditions).toEqual({
+      notBefore: mockTimestamp - 300,
+      notOnOrAfter: mockTimestamp + 3600,
+      audiences: ['https://sp.example.com'],
+    });
+    expect(assertion.sessionIndex).toBe('_session1');
+    expect(assertion.attributes).toEqual([
+      {
+        name: 'email',
+        friendlyName: 'mail',
+        values: ['john.doe@example.com'],
+      },
+      { name: 'groups', values: ['admins', 'developers'] },
+    ]);
+  });
+
+  it('should inflate a redirect binding request', async () => {
+    const result = await decodeSamlMessage(await deflateToBase64(authnRequest));
+    expect(result.isValid).toBe(true);
+    expect(result.decoded?.messageType).toBe('AuthnRequest');
+    expect(result.decoded?.encoding).toBe('deflate');
+    expect(result.decoded?.assertionConsumerServiceUrl).toBe(
+      'https://sp.example.com/acs'
+    );
+    expect(result.decoded?.assertions).toEqual([]);
+  });
+
+  it('should read the value out of a redirect URL', async () => {
+    const value = encodeURIComponent(await deflateToBase64(authnRequest));
+    const result = await decodeSamlMessage(
+      `https://idp.example.com/sso?SAMLRequest=${value}&RelayState=abc`
+    );
+    expect(result.isValid).toBe(true);
+    expect(result.decoded?.issuer).toBe('https://sp.example.com');
+  });
+
+  it('should report malformed percent-encoding in a URL', async () => {
+    expect(
+      await decodeSamlMessage(
+        'https://idp.example.com/sso?SAMLRequest=abc%E0%A4%A'
+      )
+    ).toEqual({
+      isValid: false,
+      error: 'The SAML parameter is not valid percent-encoding',
+    });
+  });
+
+  it('should accept raw XML and bare assertions', async () => {
+    const assertion = `<saml:Assertion xmlns:saml="${SAML_ASSERTION_NS}" ID="_a%20b"><saml:Issuer>idp</saml:Issuer></saml:Assertion>`;
+    const result = await decodeSamlMessage(assertion);
+    expect(result.decoded?.encoding).toBe('xml');
+    expect(result.decoded?.xml).toBe(assertion);
+    expect(result.decoded?.messageType).toBe('Assertion');
+    expect(result.decoded?.assertions[0].issuer).toBe('idp');
+  });
+
+  it('should detect XML signatures on assertions', async () => {
+    const signature =
+      '<ds:Signature xmlns:ds="http://www.w3.org/2000/09/xmldsig#"/>';
+    const result = await decodeSamlMessage(
+      buildResponse('2024-01-01T00:00:00Z', '2024-01-01T01:00:00Z', signature)
+    );
+    expect(result.decoded?.hasSignatureElement).toBe(false);
+    expect(result.decoded?.assertions[0].hasSignatureElement).toBe(true);
+  });
+
+  it('should reject values that are not SAML', async () => {
+    expect((await decodeSamlMessage('')).error).toBe('SAML message is empty');
+    expect((await decodeSamlMessage('not base64!')).isValid).toBe(false);
+    expect((await decodeSamlMessage(btoa('<a>'))).error).toBe(
+      'The decoded value is not valid XML'
+    );
+    expect((await decodeSamlMessage(btoa('<html/>'))).error).toBe(
+      '<html> is not a SAML 2.0 protocol message or assertion'
+    );
+  });
+});
+
+describe('samlAssertionToJwtPayload', () => {
+  it('should map the conditions onto nbf and exp', async () => {
+    const { decoded } = await decodeSamlMessage(
+      buildResponse('2024-01-01T00:00:00Z', '2024-01-01T01:00:00Z')
+    );
+    expect(samlAssertionToJwtPayload(decoded!.assertions[0])).toEqual({
+      iss: 'https://idp.example.com',
+      sub: 'jane',
+      aud: ['https://sp.example.com'],
+      nbf: mockTimestamp,
+      exp: mockTimestamp + 3600,
+      iat: mockTimestamp,
+    });
+  });
+});
+
+describe('lintSamlMessage', () => {
+  it('should flag unsigned assertions', async () => {
+    const { decoded } = await decodeSamlMessage(
+      generateSampleSamlResponse(clock)
+    );
+    expect(lintSamlMessage(decoded!, clock).map(f => f.id)).toEqual([
+      'saml-unsigned',
+    ]);
+  });
+
+  it('should flag expired assertions and confirmations', async () => {
+    const { decoded } = await decodeSamlMessage(
+      generateSampleSamlResponse(clock)
+    );
+    const later = () => mockNow + 2 * 3600 * 1000;
+    expect(lintSamlMessage(decoded!, later).map(f => f.id)).toEqual([
+      'saml-unsigned',
+      'saml-expired',
+      'saml-confirmation-expired',
+    ]);
+  });
+
+  it('should treat NotOnOrAfter as exclusive', async () => {
+    const { decoded } = await decodeSamlMessage(
+      generateSampleSamlResponse(clock)
+    );
+    const confirmationEnd = () => mockNow + 5 * 60 * 1000;
+    expect(lintSamlMessage(decoded!, confirmationEnd).map(f => f.id)).toEqual([
+      'saml-unsigned',
+      'saml-confirmation-expired',
+    ]);
+
+    expect(isSamlTimeReached(mockTimestamp, clock)).toBe(true);
+    expect(isSamlTimeReached(mockTimestamp + 1, clock)).toBe(false);
+    expect(isSamlTimeReached(undefined, clock)).toBe(false);
+  });
+
+  it('should flag assertions that are not yet valid', async () => {
+    const signature =
+      '<ds:Signature xmlns:ds="http://www.w3.org/2000/09/xmldsig#"/>';
+    const { decoded } = await decodeSamlMessage(
+      buildResponse('2024-01-02T00:00:00Z', '2024-01-02T01:00:00Z', signature)
+    );
+    expect(lintSamlMessage(decoded!, clock).map(f => f.id)).toEqual([
+      'saml-not-yet-valid',
+    ]);
+  });
+
+  it('should not flag requests', async () => {
+    const { decoded } = await decodeSamlMessage(authnRequest);
+    expect(lintSamlMessage(decoded!, clock)).toEqual([]);
+  });
+});
+
+describe('formatXml', () => {
+  it('should indent nested elements and keep text inline', () => {
+    expect(formatXml('<a x="1"><b>text</b><c/></a>')).toBe(
+      '<a x="1">\n  <b>text</b>\n  <c/>\n</a>'
+    );
+  });
+
+  it('should return invalid XML unchanged', () => {
+    expect(formatXml('<a>')).toBe('<a>');
+  });
+});
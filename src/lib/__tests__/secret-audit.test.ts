@@ -0,0 +1,99 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest';
+import { encodeJwt } from '../jwt-utils';
+import {
+  auditHmacSecret,
+  COMMON_JWT_SECRETS,
+  getAuditCandidates,
+  parseWordlist,
+} from '../secret-audit';
+
+const payload = { sub: '1234567890', name: 'John Doe', iat: 1516239022 };
+
+describe('parseWordlist', () => {
+  it('should split lines and drop blanks and duplicates', () => {
+    expect(parseWordlist('alpha\r\nbeta\n\nalpha\n gamma \n')).toEqual([
+      'alpha',
+      'beta',
+      ' gamma ',
+    ]);
+  });
+});
+
+describe('getAuditCandidates', () => {
+  it('should put the bundled secrets first and skip duplicates', () => {
+    const candidates = getAuditCandidates(['secret', 'hunter2']);
+    expect(candidates.slice(0, COMMON_JWT_SECRETS.length)).toEqual(
+      COMMON_JWT_SECRETS
+    );
+    expect(candidates.at(-1)).toBe('hunter2');
+    expect(candidates.filter(value => value === 'secret')).toHaveLength(1);
+  });
+
+  it('should include the default secret of the decoder', () => {
+    expect(getAuditCandidates()).toContain('your-256-bit-secret');
+  });
+});
+
+describe('auditHmacSecret', () => {
+  it('should find a default secret', async () => {
+    const token = await encodeJwt({ alg: 'HS256' }, payload, 'secret');
+    const result = await auditHmacSecret(token, getAuditCandidates());
+    expect(result.found).toBe(true);
+    expect(result.secret).toBe('secret');
+    expect(result.tried).toBe(COMMON_JWT_SECRETS.indexOf('secret') + 1);
+  });
+
+  it('should find a secret from a wordlist for every HS algorithm', async () => {
+    for (const alg of ['HS256', 'HS384', 'HS512']) {
+      const token = await encodeJwt({ alg }, payload, 'hunter2', alg);
+      const result = await auditHmacSecret(
+        token,
+        getAuditCandidates(['hunter2'])
+      );
+      expect(result.found).toBe(true);
+      expect(result.secret).toBe('hunter2');
+    }
+  });
+
+  it('should report when no candidate matches', async () => {
+    const token = await encodeJwt(
+      { alg: 'HS256' },
+      payload,
+      'b3f1c2e4d5a6978812ab34cd56ef7890'
+    );
+    const candidates = getAuditCandidates();
+    const result = await auditHmacSecret(token, candidates);
+    expect(result).toEqual({
+      found: false,
+      tried: candidates.length,
+      total: candidates.length,
+    });
+  });
+
+  it('should report progress', async () => {
+    const token = await encodeJwt({ alg: 'HS256' }, payload, 'not-listed');
+    const candidates = Array.from({ length: 500 }, (_, i) => `word-${i}`);
+    const onProgress = vi.fn();
+
+    await auditHmacSecret(token, candidates, onProgress);
+    expect(onProgress).toHaveBeenCalledWith({ tried: 0, total: 500 });
+    expect(onProgress).toHaveBeenCalledWith({ tried: 250, total: 500 });
+    expect(onProgress).toHaveBeenLastCalledWith({ tried: 500, total: 500 });
+  });
+
+  it('should refuse tokens that are not signed with HMAC', async () => {
+    const token = await encodeJwt({ alg: 'none' }, payload, 'unused', 'none');
+    const result = await auditHmacSecret(token, ['secret']);
+    expect(result.found).toBe(false);
+    expect(result.error).toBe(
+      'Only HS256, HS384 and HS512 tokens can be audited'
+    );
+  });
+
+  it('should report malformed tokens', async () => {
+    const result = await auditHmacSecret('not-a-token', ['secret']);
+    expect(result.found).toBe(false);
+    expect(result.error).toBeDefined();
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { sortBySeverity, type SecurityFinding } from '../security-findings';
+
+/**
+ * Builds a finding with the given id and severity
+ * @param id - The finding id
+ * @param severity - The finding severity
+ * @returns The finding
+ */
+function finding(
+  id: string,
+  severity: SecurityFinding['severity']
+): SecurityFinding {
+  return { id, severity, title: id, explanation: id };
+}
+
+describe('sortBySeverity', () => {
+  it('should put the most severe findings first and keep ties in order', () => {
+    const sorted = sortBySeverity([
+      finding('a', 'low'),
+      finding('b', 'critical'),
+      finding('c', 'medium'),
+      finding('d', 'critical'),
+      finding('e', 'high'),
+    ]);
+    expect(sorted.map(item => item.id)).toEqual(['b', 'd', 'e', 'c', 'a']);
+  });
+});
@@ -0,0 +1,145 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import {
+  decodeFernet,
+  decodePaseto,
+  detectTokenFormat,
+  fernetClaimsToJwtPayload,
+  pasetoClaimsToJwtPayload,
+  verifyFernet,
+  verifyPaseto,
+} from '../token-formats';
+
+// PASETO test vector 4-S-1
+const pasetoToken =
+  'v4.public.eyJkYXRhIjoidGhpcyBpcyBhIHNpZ25lZCBtZXNzYWdlIiwiZXhwIjoiMjAyMi0wMS0wMVQwMDowMDowMCswMDowMCJ9bg_XBBzds8lTZShVlwwKSgeKpLT3yukTw6JUz3W4h_ExsQV-P0V54zemZDcAxFaSeef1QlXEFtkqxT1ciiQEDA';
+const pasetoPublicKey =
+  '1eb9dbbbbc047c03fd70604e0071f0987e16b28b757225c11f00415d0e20b1a2';
+
+// Example token and key from the Fernet specification
+const fernetToken =
+  'gAAAAAAdwJ6wAAECAwQFBgcICQoLDA0ODy021cpGVWKZ_eEwCGM4BLLF_5CV9dOPmrhuVUPgJobwOz7JcbmrR64jVmpU4IwqDA==';
+const fernetKey = 'cw_0x689RpI-jtRR7oE8h_eQsKImvJapLeSbXpwF4e4=';
+
+describe('detectTokenFormat', () => {
+  it('should detect each supported format', () => {
+    expect(detectTokenFormat('a.b.c')).toBe('jwt');
+    expect(detectTokenFormat('a.b.c.d.e')).toBe('jwe');
+    expect(detectTokenFormat('{"payload":"e30","signatures":[]}')).toBe(
+      'jws-json'
+    );
+    expect(detectTokenFormat(pasetoToken)).toBe('paseto');
+    expect(detectTokenFormat(fernetToken)).toBe('fernet');
+    expect(detectTokenFormat('not-a-token')).toBe('unknown');
+  });
+});
+
+describe('decodePaseto', () => {
+  it('should decode the claims of a v4.public token', () => {
+    const result = decodePaseto(pasetoToken);
+
+    expect(result.isValid).toBe(true);
+    expect(result.decoded?.version).toBe('v4');
+    expect(result.decoded?.purpose).toBe('public');
+    expect(result.decoded?.claims).toEqual({
+      data: 'this is a signed message',
+      exp: '2022-01-01T00:00:00+00:00',
+    });
+  });
+
+  it('should decode a JSON footer', () => {
+    const footer = Buffer.from('{"kid":"key-1"}').toString('base64url');
+    const result = decodePaseto(`${pasetoToken}.${footer}`);
+
+    expect(result.decoded?.footer).toBe('{"kid":"key-1"}');
+    expect(result.decoded?.footerClaims).toEqual({ kid: 'key-1' });
+  });
+
+  it('should reject unsupported versions', () => {
+    const result = decodePaseto(pasetoToken.replace('v4.', 'v2.'));
+
+    expect(result.isValid).toBe(false);
+    expect(result.error).toContain('not supported');
+  });
+});
+
+describe('verifyPaseto', () => {
+  it('should verify the test vector signature', async () => {
+    expect(await verifyPaseto(pasetoToken, pasetoPublicKey)).toEqual({
+      isValid: true,
+    });
+  });
+
+  it('should accept a PASERK public key', async () => {
+    const paserk = `k4.public.${Buffer.from(pasetoPublicKey, 'hex').toString('base64url')}`;
+
+    expect((await verifyPaseto(pasetoToken, paserk)).isValid).toBe(true);
+  });
+
+  it('should authenticate the footer and implicit assertion', async () => {
+    const footer = Buffer.from('{"kid":"key-1"}').toString('base64url');
+
+    expect(
+      (await verifyPaseto(`${pasetoToken}.${footer}`, pasetoPublicKey)).error
+    ).toBe('Invalid signature');
+    expect(
+      (await verifyPaseto(pasetoToken, pasetoPublicKey, '{"tenant":1}')).isValid
+    ).toBe(false);
+  });
+});
+
+describe('pasetoClaimsToJwtPayload', () => {
+  it('should convert ISO 8601 time claims to NumericDate', () => {
+    expect(
+      pasetoClaimsToJwtPayload({
+        sub: 'alice',
+        exp: '2022-01-01T00:00:00+00:00',
+      })
+    ).toEqual({ sub: 'alice', exp: 1640995200 });
+  });
+});
+
+describe('decodeFernet', () => {
+  it('should decode the timestamp and IV', () => {
+    const result = decodeFernet(fernetToken);
+
+    expect(result.isValid).toBe(true);
+    expect(result.decoded?.timestamp).toBe(499162800);
+    expect(result.decoded?.iv).toBe('000102030405060708090a0b0c0d0e0f');
+    expect(result.decoded?.ciphertextLength).toBe(16);
+  });
+
+  it('should reject tokens without the version byte', () => {
+    expect(decodeFernet('AAAA').isValid).toBe(false);
+  });
+});
+
+describe('verifyFernet', () => {
+  it('should check the HMAC and decrypt the token', async () => {
+    expect(await verifyFernet(fernetToken, fernetKey)).toEqual({
+      isValid: true,
+      plaintext: 'hello',
+    });
+  });
+
+  it('should reject a token signed with another key', async () => {
+    const otherKey = Buffer.alloc(32, 1).toString('base64url');
+
+    expect(await verifyFernet(fernetToken, otherKey)).toEqual({
+      isValid: false,
+      error: 'HMAC verification failed',
+    });
+  });
+});
+
+describe('fernetClaimsToJwtPayload', () => {
+  it('should use the timestamp as iat and merge JSON plaintext', () => {
+    const { decoded } = decodeFernet(fernetToken);
+
+    expect(fernetClaimsToJwtPayload(decoded!)).toEqual({ iat: 499162800 });
+    expect(fernetClaimsToJwtPayload(decoded!, '{"sub":"alice"}')).toEqual({
+      iat: 499162800,
+      sub: 'alice',
+    });
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Claim presets, relative time parsing and schema validation for the JWT encoder
+ */
+
+import { z } from 'zod';
+import {
+  systemClock,
+  type Clock,
+  type JwtHeader,
+  type JwtPayload,
+} from './jwt-utils';
+
+export type TimeClaim = 'iat' | 'nbf' | 'exp';
+
+export interface ClaimPreset {
+  id: string;
+  name: string;
+  description: string;
+  header: Omit<JwtHeader, 'alg'>;
+  claims: JwtPayload;
+  times: Record<string, string>;
+}
+
+export interface ClaimIssue {
+  section: 'header' | 'payload';
+  path: string;
+  message: string;
+}
+
+export interface ClaimValidationResult {
+  isValid: boolean;
+  issues: ClaimIssue[];
+}
+
+export const TIME_CLAIMS: TimeClaim[] = ['iat', 'nbf', 'exp'];
+
+export const CLAIM_PRESETS: ClaimPreset[] = [
+  {
+    id: 'oidc-id-token',
+    name: 'OIDC ID token',
+    description: 'OpenID Connect Core ID token issued to a relying party',
+    header: { typ: 'JWT' },
+    claims: {
+      iss: 'https://auth.example.com',
+      sub: '248289761001',
+      aud: 'my-client-id',
+      nonce: 'n-0S6_WzA2Mj',
+      name: 'Jane Doe',
+      email: 'janedoe@example.com',
+    },
+    times: { auth_time: '-5m', iat: 'now', exp: '+1h' },
+  },
+  {
+    id: 'oauth-access-token',
+    name: 'OAuth access token (RFC 9068)',
+    description: 'JWT profile for OAuth 2.0 access tokens',
+    header: { typ: 'at+jwt' },
+    claims: {
+      iss: 'https://auth.example.com',
+      sub: '5ba552d67',
+      aud: 'https://api.example.com',
+      client_id: 's6BhdRkqt3',
+      scope: 'openid profile reademail',
+      jti: 'dbe39bf3a3ba4238a513f51d6e1691c4',
+    },
+    times: { iat: 'now', exp: '+15m' },
+  },
+  {
+    id: 'service-to-service',
+    name: 'Service-to-service',
+    description: 'Short-lived assertion one backend presents to another',
+    header: { typ: 'JWT' },
+    claims: {
+      iss: 'billing-service',
+      sub: 'billing-service',
+      aud: 'ledger-service',
+      jti: '5f2b9a4c-8d1e-4f7a-9c3b-2e6d8a1f0b7c',
+    },
+    times: { iat: 'now', nbf: 'now', exp: '+5m' },
+  },
+];
+
+const RELATIVE_TIME_PATTERN = /^(?:now)?\s*(?:([+-])\s*(\d+)\s*([smhdw]))?$/i;
+
+const UNIT_SECONDS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 3600,
+  d: 86400,
+  w: 604800,
+};
+
+// RFC 7519 NumericDate: seconds since the epoch, fractions allowed
+const numericDate = z
+  .number({ error: 'must be a NumericDate (seconds since the epoch)' })
+  .nonnegative({ error: 'must not be negative' });
+
+const stringOrUri = z.string({ error: 'must be a string' });
+
+const headerSchema = z.looseObject({
+  alg: z.string({ error: 'must be a string' }).optional(),
+  typ: z.string({ error: 'must be a string' }).optional(),
+  cty: z.string({ error: 'must be a string' }).optional(),
+  kid: z.string({ error: 'must be a string' }).optional(),
+  crit: z
+    .array(z.string(), { error: 'must be an array of header names' })
+    .nonempty({ error: 'must not be empty' })
+    .optional(),
+});
+
+const payloadSchema = z
+  .looseObject({
+    iss: stringOrUri.optional(),
+    sub: stringOrUri.optional(),
+    aud: z
+      .union([stringOrUri, z.array(stringOrUri)], {
+        error: 'must be a string or an array of strings',
+      })
+      .optional(),
+    exp: numericDate.optional(),
+    nbf: numericDate.optional(),
+    iat: numericDate.optional(),
+    jti: z.string({ error: 'must be a string' }).optional(),
+  })
+  .superRefine((payload, ctx) => {
+    if (typeof payload.exp !== 'number') {
+      return;
+    }
+    if (typeof payload.nbf === 'number' && payload.exp <= payload.nbf) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['exp'],
+        message: 'must be after nbf',
+      });
+    }
+    if (typeof payload.iat === 'number' && payload.exp <= payload.iat) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['exp'],
+        message: 'must be after iat',
+      });
+    }
+  });
+
+/**
+ * Resolves a relative time such as "+15m" or "now" to a NumericDate
+ * @param input - "now", an offset like "+15m" or "-1d" (optionally prefixed with "now"), or absolute seconds
+ * @param clock - The clock offsets are relative to (default: system time)
+ * @returns Seconds since the epoch, or undefined when the input is not a valid time
+ */
+export function resolveRelativeTime(
+  input: string,
+  clock: Clock = systemClock
+): number | undefined {
+  const value = input.trim();
+  if (!value) {
+    return undefined;
+  }
+
+  if (/^\d+$/.test(value)) {
+    return parseInt(value, 10);
+  }
+
+  const match = RELATIVE_TIME_PATTERN.exec(value);
+  if (!match) {
+    return undefined;
+  }
+
+  const now = Math.floor(clock() / 1000);
+  const [, sign, amount, unit] = match;
+  if (!sign) {
+    return now;
+  }
+
+  const offset = parseInt(amount, 10) * UNIT_SECONDS[unit.toLowerCase()];
+  return sign === '-' ? now - offset : now + offset;
+}
+
+/**
+ * Builds the payload of a preset with its time claims resolved
+ * @param preset - The claim preset
+ * @param clock - The clock relative times are resolved against (default: system time)
+ * @returns The preset payload
+ */
+export function buildPresetPayload(
+  preset: ClaimPreset,
+  clock: Clock = systemClock
+): JwtPayload {
+  const payload: JwtPayload = { ...preset.claims };
+
+  for (const [claim, time] of Object.entries(preset.times)) {
+    payload[claim] = resolveRelativeTime(time, clock);
+  }
+
+  return payload;
+}
+
+/**
+ * Validates the registered header parameters and claims before encoding
+ * @param header - The JWT header
+ * @param payload - The JWT payload
+ * @returns Validation result with an issue per invalid claim
+ */
+export function validateJwtClaims(
+  header: unknown,
+  payload: unknown
+): ClaimValidationResult {
+  const issues: ClaimIssue[] = [
+    ...toClaimIssues('header', headerSchema.safeParse(header)),
+    ...toClaimIssues('payload', payloadSchema.safeParse(payload)),
+  ];
+
+  return { isValid: issues.length === 0, issues };
+}
+
+/**
+ * Converts a zod parse result into claim issues
+ * @param section - The token section that was parsed
+ * @param result - The zod parse result
+ * @returns Issues with dotted claim paths
+ */
+function toClaimIssues(
+  section: ClaimIssue['section'],
+  result: z.ZodSafeParseResult<unknown>
+): ClaimIssue[] {
+  if (result.success) {
+    return [];
+  }
+
+  return result.error.issues.map(issue => ({
+    section,
+    path: issue.path.length > 0 ? issue.path.join('.') : section,
+    message:
+      issue.path.length === 0 && issue.code === 'invalid_type'
+        ? 'must be a JSON object'
+        : issue.message,
+  }));
+}
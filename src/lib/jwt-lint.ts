@@ -0,0 +1,302 @@
+/**
+ * Security lint rules for decoded JWT tokens
+ */
+
+import {
+  systemClock,
+  type Clock,
+  type DecodedJwt,
+  type JwtPayload,
+} from './jwt-utils';
+import { sortBySeverity, type SecurityFinding } from './security-findings';
+
+export interface JwtLintOptions {
+  secret?: string;
+  maxLifetimeSeconds?: number;
+  clock?: Clock;
+}
+
+// Claim names that carry personal data by definition (OIDC standard claims)
+const SENSITIVE_CLAIM_NAMES = [
+  'email',
+  'phone',
+  'phone_number',
+  'address',
+  'birthdate',
+  'ssn',
+  'password',
+];
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/;
+// Requires an international prefix or separators so plain numeric IDs are not flagged
+const PHONE_PATTERN =
+  /^(\+\d{1,3}[\s.-]?\(?\d{1,4}\)?([\s.-]?\d{2,4}){2,4}|\(?\d{3}\)?[\s.-]\d{3}[\s.-]\d{4})$/;
+
+/**
+ * Runs the security lint rules over a decoded JWT
+ * @param decoded - The decoded JWT
+ * @param options - The HMAC secret to audit, the maximum acceptable lifetime and the clock
+ * @returns Findings sorted from most to least severe
+ */
+export function lintJwt(
+  decoded: DecodedJwt,
+  options: JwtLintOptions = {}
+): SecurityFinding[] {
+  const { header, payload } = decoded;
+  const findings: SecurityFinding[] = [];
+  const alg = typeof header.alg === 'string' ? header.alg : '';
+
+  if (alg.toLowerCase() === 'none') {
+    findings.push({
+      id: 'alg-none',
+      severity: 'critical',
+      title: 'Unsigned token',
+      explanation:
+        'The "none" algorithm means the token carries no signature, so anyone can forge or modify it. Verifiers must never accept unsigned tokens.',
+      location: 'header.alg',
+    });
+  }
+
+  if (/^HS(256|384|512)$/.test(alg) && options.secret) {
+    findings.push(...lintHmacSecret(options.secret, alg));
+  }
+
+  if (header.jku !== undefined) {
+    findings.push({
+      id: 'header-jku',
+      severity: 'high',
+      title: 'Remote key set URL in header',
+      explanation:
+        'The "jku" header tells the verifier where to download the key set. If the verifier follows it without an allow list, an attacker can point it at their own keys.',
+      location: 'header.jku',
+    });
+  }
+
+  if (header.x5u !== undefined) {
+    findings.push({
+      id: 'header-x5u',
+      severity: 'high',
+      title: 'Remote certificate URL in header',
+      explanation:
+        'The "x5u" header tells the verifier where to download the signing certificate. Following it without an allow list lets an attacker supply their own certificate.',
+      location: 'header.x5u',
+    });
+  }
+
+  if (header.jwk !== undefined) {
+    findings.push({
+      id: 'header-jwk',
+      severity: 'high',
+      title: 'Embedded public key in header',
+      explanation:
+        'The token carries its own verification key in the "jwk" header. A verifier that trusts it accepts any token signed by whoever created the key.',
+      location: 'header.jwk',
+    });
+  }
+
+  if (header.crit !== undefined) {
+    findings.push({
+      id: 'header-crit',
+      severity: 'medium',
+      title: 'Critical header extensions',
+      explanation: `The "crit" header lists extensions (${formatList(header.crit)}) that the verifier must understand and enforce, otherwise the token has to be rejected.`,
+      location: 'header.crit',
+    });
+  }
+
+  if (payload.exp === undefined) {
+    findings.push({
+      id: 'missing-exp',
+      severity: 'medium',
+      title: 'No expiration time',
+      explanation:
+        'Without an "exp" claim the token never expires, so a leaked token stays usable until the signing key is rotated.',
+      location: 'payload.exp',
+    });
+  } else if (typeof payload.exp === 'number') {
+    findings.push(
+      ...lintLifetime(
+        payload.exp,
+        payload,
+        options.maxLifetimeSeconds,
+        options.clock
+      )
+    );
+  }
+
+  findings.push(...lintSensitiveData(payload, 'payload'));
+
+  return sortBySeverity(findings);
+}
+
+/**
+ * Estimates the entropy of a secret in bits from its character distribution
+ * @param secret - The secret to measure
+ * @returns Estimated entropy in bits
+ */
+export function estimateSecretEntropy(secret: string): number {
+  if (!secret) {
+    return 0;
+  }
+
+  const counts = new Map<string, number>();
+  for (const char of secret) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  const length = [...secret].length;
+  let bitsPerChar = 0;
+  for (const count of counts.values()) {
+    const probability = count / length;
+    bitsPerChar -= probability * Math.log2(probability);
+  }
+
+  return bitsPerChar * length;
+}
+
+/**
+ * Checks an HMAC secret against the key size and entropy the algorithm needs
+ * @param secret - The HMAC secret
+ * @param alg - The HS* algorithm
+ * @returns Findings for short or predictable secrets
+ */
+function lintHmacSecret(secret: string, alg: string): SecurityFinding[] {
+  const findings: SecurityFinding[] = [];
+  // RFC 7518 section 3.2 requires a key at least as long as the hash output
+  const requiredBytes = parseInt(alg.slice(2), 10) / 8;
+  const secretBytes = new TextEncoder().encode(secret).length;
+
+  if (secretBytes < requiredBytes) {
+    findings.push({
+      id: 'short-secret',
+      severity: 'high',
+      title: 'HMAC secret is too short',
+      explanation: `${alg} needs a secret of at least ${requiredBytes} bytes, but this one is ${secretBytes} bytes. Short secrets can be brute-forced offline from any captured token.`,
+      location: 'secret',
+    });
+  }
+
+  const entropy = Math.round(estimateSecretEntropy(secret));
+  if (entropy < 128) {
+    findings.push({
+      id: 'low-entropy-secret',
+      severity: 'medium',
+      title: 'HMAC secret has low entropy',
+      explanation: `The secret has an estimated ${entropy} bits of entropy. Use at least 128 bits of randomly generated data rather than a word or phrase.`,
+      location: 'secret',
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * Checks whether the token lifetime exceeds the acceptable maximum
+ * @param exp - The exp claim
+ * @param payload - The JWT payload
+ * @param maxLifetimeSeconds - The maximum acceptable lifetime (default: 24 hours)
+ * @param clock - The clock used when the token has no iat claim
+ * @returns A finding when the lifetime is too long
+ */
+function lintLifetime(
+  exp: number,
+  payload: JwtPayload,
+  maxLifetimeSeconds: number = 86400,
+  clock: Clock = systemClock
+): SecurityFinding[] {
+  const start =
+    typeof payload.iat === 'number' ? payload.iat : Math.floor(clock() / 1000);
+  const lifetime = exp - start;
+
+  if (lifetime <= maxLifetimeSeconds) {
+    return [];
+  }
+
+  return [
+    {
+      id: 'long-lifetime',
+      severity: lifetime > maxLifetimeSeconds * 30 ? 'high' : 'low',
+      title: 'Excessively long lifetime',
+      explanation: `The token is valid for ${formatDuration(lifetime)}${typeof payload.iat === 'number' ? ' after it was issued' : ' from now'}, more than the ${formatDuration(maxLifetimeSeconds)} maximum. Long-lived tokens widen the window in which a leaked token can be abused.`,
+      location: 'payload.exp',
+    },
+  ];
+}
+
+/**
+ * Looks for personal data in claim names and string values
+ * @param value - The claim value to inspect
+ * @param path - The dotted path of the value
+ * @returns Findings for every sensitive looking value
+ */
+function lintSensitiveData(value: unknown, path: string): SecurityFinding[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) =>
+      lintSensitiveData(item, `${path}[${index}]`)
+    );
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, item]) => {
+      const itemPath = `${path}.${key}`;
+      if (SENSITIVE_CLAIM_NAMES.includes(key.toLowerCase())) {
+        return [sensitiveDataFinding(itemPath, `a "${key}" claim`)];
+      }
+      return lintSensitiveData(item, itemPath);
+    });
+  }
+
+  if (typeof value === 'string') {
+    if (EMAIL_PATTERN.test(value)) {
+      return [sensitiveDataFinding(path, 'an email address')];
+    }
+    if (PHONE_PATTERN.test(value.trim())) {
+      return [sensitiveDataFinding(path, 'a phone number')];
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Builds the finding reported for personal data in the payload
+ * @param location - The dotted path of the value
+ * @param description - What kind of data was found
+ * @returns The lint finding
+ */
+function sensitiveDataFinding(
+  location: string,
+  description: string
+): SecurityFinding {
+  return {
+    id: 'sensitive-data',
+    severity: 'low',
+    title: 'Personal data in payload',
+    explanation: `The payload contains ${description}. JWT payloads are only base64url encoded, so anyone holding the token can read it.`,
+    location,
+  };
+}
+
+/**
+ * Formats a header value as a readable list
+ * @param value - A single value or list of values
+ * @returns Comma separated list
+ */
+function formatList(value: unknown): string {
+  return Array.isArray(value) ? value.join(', ') : String(value);
+}
+
+/**
+ * Formats a duration in seconds using its largest whole unit
+ * @param seconds - The duration in seconds
+ * @returns Human-readable duration
+ */
+function formatDuration(seconds: number): string {
+  if (seconds < 3600) {
+    return `${Math.floor(seconds / 60)} minutes`;
+  } else if (seconds < 86400) {
+    return `${Math.floor(seconds / 3600)} hours`;
+  } else {
+    return `${Math.floor(seconds / 86400)} days`;
+  }
+}
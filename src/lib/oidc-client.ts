@@ -0,0 +1,282 @@
+/**
+ * OIDC discovery, JWKS retrieval and RFC 7662 token introspection
+ */
+
+import {
+  decodeJwt,
+  verifyJwtWithJwks,
+  type JwksVerificationResult,
+} from './jwt-utils';
+
+export interface OidcDiscoveryDocument {
+  issuer: string;
+  jwks_uri: string;
+  introspection_endpoint?: string;
+  [key: string]: unknown;
+}
+
+export interface IntrospectionResponse {
+  active: boolean;
+  scope?: string;
+  client_id?: string;
+  username?: string;
+  token_type?: string;
+  sub?: string;
+  exp?: number;
+  [key: string]: unknown;
+}
+
+export interface OnlineVerificationOptions {
+  issuerUrl: string;
+  introspectionEndpoint?: string;
+  clientId?: string;
+  clientSecret?: string;
+}
+
+export interface OnlineVerificationResult {
+  isValid: boolean;
+  discovery?: OidcDiscoveryDocument;
+  signature?: JwksVerificationResult;
+  introspection?: IntrospectionResponse;
+  introspectionAvailable?: boolean;
+  error?: string;
+}
+
+const DISCOVERY_PATH = '/.well-known/openid-configuration';
+
+/**
+ * Builds the discovery document URL for an issuer
+ * @param issuerUrl - The issuer URL, or the discovery document URL itself
+ * @returns The discovery document URL
+ */
+export function getDiscoveryUrl(issuerUrl: string): string {
+  return `${getIssuerUrl(issuerUrl)}${DISCOVERY_PATH}`;
+}
+
+/**
+ * Strips the discovery path and trailing slashes from an issuer URL
+ * @param issuerUrl - The issuer URL, or the discovery document URL itself
+ * @returns The issuer URL
+ */
+function getIssuerUrl(issuerUrl: string): string {
+  const url = issuerUrl.trim().replace(/\/+$/, '');
+  return url.endsWith(DISCOVERY_PATH)
+    ? url.slice(0, -DISCOVERY_PATH.length).replace(/\/+$/, '')
+    : url;
+}
+
+/**
+ * Fetches and checks an OIDC discovery document, which must name the requested
+ * issuer (OpenID Connect Discovery section 4.3)
+ * @param issuerUrl - The issuer URL, or the discovery document URL itself
+ * @param fetchImpl - The fetch implementation (default: global fetch)
+ * @returns The discovery document
+ */
+export async function fetchDiscoveryDocument(
+  issuerUrl: string,
+  fetchImpl: typeof fetch = fetch
+): Promise<OidcDiscoveryDocument> {
+  const document = await fetchJson(getDiscoveryUrl(issuerUrl), {}, fetchImpl);
+
+  if (typeof document.issuer !== 'string') {
+    throw new Error('Discovery document is missing "issuer"');
+  }
+  if (document.issuer.replace(/\/+$/, '') !== getIssuerUrl(issuerUrl)) {
+    throw new Error(
+      `Discovery document names issuer "${document.issuer}", not ${getIssuerUrl(issuerUrl)}`
+    );
+  }
+  if (typeof document.jwks_uri !== 'string') {
+    throw new Error('Discovery document is missing "jwks_uri"');
+  }
+
+  return document as OidcDiscoveryDocument;
+}
+
+/**
+ * Fetches a JWKS as text for verifyJwtWithJwks
+ * @param jwksUri - The JWKS URL
+ * @param fetchImpl - The fetch implementation (default: global fetch)
+ * @returns The JWKS JSON text
+ */
+export async function fetchJwks(
+  jwksUri: string,
+  fetchImpl: typeof fetch = fetch
+): Promise<string> {
+  return JSON.stringify(await fetchJson(jwksUri, {}, fetchImpl));
+}
+
+/**
+ * Asks an RFC 7662 introspection endpoint whether a token is active
+ * @param endpoint - The introspection endpoint URL
+ * @param token - The token to introspect
+ * @param credentials - Client credentials sent with HTTP Basic authentication
+ * @param fetchImpl - The fetch implementation (default: global fetch)
+ * @returns The introspection response
+ */
+export async function introspectToken(
+  endpoint: string,
+  token: string,
+  credentials: { clientId?: string; clientSecret?: string } = {},
+  fetchImpl: typeof fetch = fetch
+): Promise<IntrospectionResponse> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    Accept: 'application/json',
+  };
+  if (credentials.clientId) {
+    // RFC 6749 section 2.3.1 form-encodes the credentials before base64
+    headers.Authorization = `Basic ${btoa(
+      `${encodeURIComponent(credentials.clientId)}:${encodeURIComponent(credentials.clientSecret ?? '')}`
+    )}`;
+  }
+
+  const response = await fetchJson(
+    endpoint,
+    {
+      method: 'POST',
+      headers,
+      body: new URLSearchParams({ token }).toString(),
+    },
+    fetchImpl
+  );
+
+  if (typeof response.active !== 'boolean') {
+    throw new Error('Introspection response is missing "active"');
+  }
+
+  return response as IntrospectionResponse;
+}
+
+/**
+ * Verifies a token against its issuer: discovery, issuer match, JWKS signature
+ * check and, when the issuer offers it, introspection
+ * @param token - The JWT to verify
+ * @param options - The issuer URL, an introspection endpoint override and client credentials
+ * @param fetchImpl - The fetch implementation (default: global fetch)
+ * @returns Combined result, valid only when the token was issued by the issuer, the signature verifies and introspection, if available, reports the token active
+ */
+export async function verifyTokenOnline(
+  token: string,
+  options: OnlineVerificationOptions,
+  fetchImpl: typeof fetch = fetch
+): Promise<OnlineVerificationResult> {
+  if (!token || !options.issuerUrl) {
+    return { isValid: false, error: 'Token and issuer URL are required' };
+  }
+
+  let discovery: OidcDiscoveryDocument;
+  try {
+    discovery = await fetchDiscoveryDocument(options.issuerUrl, fetchImpl);
+  } catch (error) {
+    return {
+      isValid: false,
+      error: `Discovery failed: ${getErrorMessage(error)}`,
+    };
+  }
+
+  const decoded = decodeJwt(token);
+  if (!decoded.decoded) {
+    return { isValid: false, discovery, error: decoded.error };
+  }
+  const { iss } = decoded.decoded.payload;
+  if (iss !== discovery.issuer) {
+    return {
+      isValid: false,
+      discovery,
+      error:
+        iss === undefined
+          ? 'The token has no "iss" claim'
+          : `The token was issued by "${iss}", not ${discovery.issuer}`,
+    };
+  }
+
+  let signature: JwksVerificationResult;
+  try {
+    signature = await verifyJwtWithJwks(
+      token,
+      await fetchJwks(discovery.jwks_uri, fetchImpl)
+    );
+  } catch (error) {
+    return {
+      isValid: false,
+      discovery,
+      error: `JWKS retrieval failed: ${getErrorMessage(error)}`,
+    };
+  }
+
+  const endpoint =
+    options.introspectionEndpoint || discovery.introspection_endpoint;
+  if (!endpoint) {
+    return {
+      isValid: signature.isValid,
+      discovery,
+      signature,
+      introspectionAvailable: false,
+      error: signature.error,
+    };
+  }
+
+  let introspection: IntrospectionResponse;
+  try {
+    introspection = await introspectToken(endpoint, token, options, fetchImpl);
+  } catch (error) {
+    return {
+      isValid: false,
+      discovery,
+      signature,
+      introspectionAvailable: true,
+      error: `Introspection failed: ${getErrorMessage(error)}`,
+    };
+  }
+
+  let error: string | undefined;
+  if (!signature.isValid) {
+    error = signature.error;
+  } else if (!introspection.active) {
+    error = 'The authorization server reports the token as inactive';
+  }
+
+  return {
+    isValid: signature.isValid && introspection.active,
+    discovery,
+    signature,
+    introspection,
+    introspectionAvailable: true,
+    error,
+  };
+}
+
+/**
+ * Fetches a URL and parses a JSON object response
+ * @param url - The URL to fetch
+ * @param init - Request options
+ * @param fetchImpl - The fetch implementation
+ * @returns The parsed JSON object
+ */
+async function fetchJson(
+  url: string,
+  init: RequestInit,
+  fetchImpl: typeof fetch
+): Promise<Record<string, unknown>> {
+  const response = await fetchImpl(url, init);
+  if (!response.ok) {
+    throw new Error(`${url} responded with HTTP ${response.status}`);
+  }
+
+  const body: unknown = await response.json();
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new Error(`${url} did not return a JSON object`);
+  }
+
+  return body as Record<string, unknown>;
+}
+
+/**
+ * Extracts a message from a thrown value
+ * @param error - The thrown value
+ * @returns The error message
+ */
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,996 @@
+/**
+ * Syntax rules of other regex flavors, and translation between them
+ */
+
+import { parseRegex } from './regex-parser';
+import {
+  explainRegexTree,
+  validateRegexPattern,
+  type RegexExplanationNode,
+} from './regex-utils';
+
+export type RegexFlavor =
+  | 'javascript'
+  | 'pcre'
+  | 'python'
+  | 'go'
+  | 'java'
+  | 'posix';
+
+export const REGEX_FLAVORS: Record<RegexFlavor, string> = {
+  javascript: 'JavaScript',
+  pcre: 'PCRE (PHP, R, nginx)',
+  python: 'Python (re)',
+  go: 'Go (RE2)',
+  java: 'Java',
+  posix: 'POSIX ERE (grep -E)',
+};
+
+export type RegexFeature =
+  | 'non-capturing-group'
+  | 'named-group'
+  | 'python-named-group'
+  | 'backreference'
+  | 'named-backreference'
+  | 'python-named-backreference'
+  | 'lookahead'
+  | 'lookbehind'
+  | 'atomic-group'
+  | 'conditional'
+  | 'recursion'
+  | 'lazy-quantifier'
+  | 'possessive-quantifier'
+  | 'inline-modifiers'
+  | 'comment'
+  | 'shorthand-class'
+  | 'word-boundary'
+  | 'unicode-property'
+  | 'posix-class'
+  | 'start-anchor'
+  | 'end-anchor'
+  | 'end-anchor-upper'
+  | 'braced-hex'
+  | 'quoted-literal'
+  | 'match-reset'
+  | 'extended-escape';
+
+export interface RegexFlavorIssue {
+  feature: RegexFeature;
+  label: string;
+  raw: string;
+  start: number;
+  end: number;
+}
+
+export interface RegexTranslation {
+  pattern: string;
+  flags: string;
+  notes: string[];
+  unsupported: RegexFlavorIssue[];
+}
+
+const EXCEPT_POSIX: RegexFlavor[] = [
+  'javascript',
+  'pcre',
+  'python',
+  'go',
+  'java',
+];
+const BACKTRACKING: RegexFlavor[] = ['javascript', 'pcre', 'python', 'java'];
+
+// Which flavors accept each piece of syntax
+const FEATURES: Record<
+  RegexFeature,
+  { label: string; flavors: RegexFlavor[] }
+> = {
+  'non-capturing-group': {
+    label: 'Non-capturing groups (?:…)',
+    flavors: EXCEPT_POSIX,
+  },
+  'named-group': {
+    label: 'Named groups (?<name>…)',
+    flavors: ['javascript', 'pcre', 'go', 'java'],
+  },
+  'python-named-group': {
+    label: 'Named groups (?P<name>…)',
+    flavors: ['pcre', 'python', 'go'],
+  },
+  backreference: { label: 'Backreferences \\1', flavors: BACKTRACKING },
+  'named-backreference': {
+    label: 'Named backreferences \\k<name>',
+    flavors: ['javascript', 'pcre', 'java'],
+  },
+  'python-named-backreference': {
+    label: 'Named backreferences (?P=name)',
+    flavors: ['pcre', 'python'],
+  },
+  lookahead: { label: 'Lookahead (?=…) and (?!…)', flavors: BACKTRACKING },
+  lookbehind: { label: 'Lookbehind (?<=…) and (?<!…)', flavors: BACKTRACKING },
+  'atomic-group': {
+    label: 'Atomic groups (?>…)',
+    flavors: ['pcre', 'python', 'java'],
+  },
+  conditional: {
+    label: 'Conditionals (?(1)…|…)',
+    flavors: ['pcre', 'python'],
+  },
+  recursion: {
+    label: 'Recursion (?R) and subroutine calls',
+    flavors: ['pcre'],
+  },
+  'lazy-quantifier': {
+    label: 'Lazy quantifiers *? +? ??',
+    flavors: EXCEPT_POSIX,
+  },
+  'possessive-quantifier': {
+    label: 'Possessive quantifiers *+ ++ ?+',
+    flavors: ['pcre', 'python', 'java'],
+  },
+  'inline-modifiers': {
+    label: 'Inline modifiers (?i)',
+    flavors: ['pcre', 'python', 'go', 'java'],
+  },
+  comment: { label: 'Comments (?#…)', flavors: ['pcre', 'python'] },
+  'shorthand-class': {
+    label: 'Shorthand classes \\d \\w \\s',
+    flavors: EXCEPT_POSIX,
+  },
+  'word-boundary': { label: 'Word boundaries \\b \\B', flavors: EXCEPT_POSIX },
+  'unicode-property': {
+    label: 'Unicode properties \\p{…}',
+    flavors: ['javascript', 'pcre', 'go', 'java'],
+  },
+  'posix-class': {
+    label: 'POSIX classes [:alpha:]',
+    flavors: ['pcre', 'go', 'posix'],
+  },
+  'start-anchor': {
+    label: 'String start anchor \\A',
+    flavors: ['pcre', 'python', 'go', 'java'],
+  },
+  'end-anchor': {
+    label: 'String end anchor \\z',
+    flavors: ['pcre', 'go', 'java'],
+  },
+  'end-anchor-upper': {
+    label: 'String end anchor \\Z',
+    flavors: ['pcre', 'python', 'java'],
+  },
+  'braced-hex': {
+    label: 'Hex escapes \\x{…}',
+    flavors: ['pcre', 'go', 'java'],
+  },
+  'quoted-literal': {
+    label: 'Quoted literals \\Q…\\E',
+    flavors: ['pcre', 'go', 'java'],
+  },
+  'match-reset': { label: 'Match reset \\K', flavors: ['pcre'] },
+  'extended-escape': {
+    label: 'Escapes \\G \\R \\X \\h \\H',
+    flavors: ['pcre', 'java'],
+  },
+};
+
+// ASCII equivalents of POSIX classes, as character class contents
+const POSIX_CLASS_RANGES: Record<string, string> = {
+  alpha: 'a-zA-Z',
+  digit: '0-9',
+  alnum: 'a-zA-Z0-9',
+  upper: 'A-Z',
+  lower: 'a-z',
+  space: ' \\t\\n\\r\\f\\v',
+  blank: ' \\t',
+  xdigit: '0-9A-Fa-f',
+  punct: '!-\\/:-@\\[-`{-~',
+  cntrl: '\\x00-\\x1f\\x7f',
+  print: ' -~',
+  graph: '!-~',
+  word: '\\w',
+};
+
+const JAVA_POSIX_CLASSES: Record<string, string> = {
+  alpha: 'Alpha',
+  digit: 'Digit',
+  alnum: 'Alnum',
+  upper: 'Upper',
+  lower: 'Lower',
+  space: 'Space',
+  blank: 'Blank',
+  xdigit: 'XDigit',
+  punct: 'Punct',
+  cntrl: 'Cntrl',
+  print: 'Print',
+  graph: 'Graph',
+};
+
+// POSIX spellings of shorthand classes, outside and inside brackets
+const POSIX_SHORTHANDS: Record<string, [string, string | null]> = {
+  d: ['[[:digit:]]', '[:digit:]'],
+  D: ['[^[:digit:]]', null],
+  w: ['[[:alnum:]_]', '[:alnum:]_'],
+  W: ['[^[:alnum:]_]', null],
+  s: ['[[:space:]]', '[:space:]'],
+  S: ['[^[:space:]]', null],
+};
+
+// JavaScript stand-ins for escapes it lacks, used for previews and explanations
+const EXTENDED_ESCAPES: Record<
+  string,
+  { approximation: string; explanation: string }
+> = {
+  G: {
+    approximation: '(?:)',
+    explanation: 'Matches where the previous match ended',
+  },
+  R: {
+    approximation: '(?:\\r\\n|[\\n\\v\\f\\r\\u0085\\u2028\\u2029])',
+    explanation: 'Matches any line break sequence, including \\r\\n',
+  },
+  X: {
+    approximation: '[\\s\\S]',
+    explanation: 'Matches one extended grapheme cluster',
+  },
+  h: {
+    approximation: '[\\t \\u00a0]',
+    explanation: 'Matches a horizontal whitespace character',
+  },
+  H: {
+    approximation: '[^\\t \\u00a0]',
+    explanation: 'Matches any character that is not horizontal whitespace',
+  },
+};
+
+interface FlavorToken {
+  feature?: RegexFeature;
+  raw: string;
+  start: number;
+  end: number;
+  inClass: boolean;
+  value?: string;
+  // A bracket or backslash that is literal inside a class in the source flavor
+  literal?: boolean;
+}
+
+interface OutputPiece {
+  sourceStart: number;
+  sourceEnd: number;
+  outputStart: number;
+  outputEnd: number;
+  verbatim: boolean;
+}
+
+interface RenderedPattern extends RegexTranslation {
+  pieces: OutputPiece[];
+}
+
+/**
+ * Checks whether a flavor accepts a piece of syntax
+ * @param feature - The syntax feature
+ * @param flavor - The regex flavor
+ * @returns Whether the flavor supports it
+ */
+export function isFeatureSupported(
+  feature: RegexFeature,
+  flavor: RegexFlavor
+): boolean {
+  return FEATURES[feature].flavors.includes(flavor);
+}
+
+/**
+ * Validates a pattern against the syntax rules of a flavor
+ * @param pattern - The regex pattern
+ * @param flavor - The regex flavor
+ * @returns The validation result, with every construct the flavor does not support
+ */
+export function validateFlavorPattern(
+  pattern: string,
+  flavor: RegexFlavor
+): { isValid: boolean; error?: string; unsupported: RegexFlavorIssue[] } {
+  const unsupported = tokenizeFlavorPattern(pattern, flavor)
+    .filter(
+      token => token.feature && !isFeatureSupported(token.feature, flavor)
+    )
+    .map(token => toIssue(token));
+  if (unsupported.length > 0) {
+    const [first] = unsupported;
+    return {
+      isValid: false,
+      error: `"${first.raw}" at position ${first.start} is not supported in ${REGEX_FLAVORS[flavor]}: ${first.label}`,
+      unsupported,
+    };
+  }
+
+  if (flavor === 'javascript' || !pattern) {
+    const { isValid, error } = validateRegexPattern(pattern);
+    return { isValid, ...(error && { error }), unsupported: [] };
+  }
+
+  // Check the structure through the equivalent JavaScript pattern
+  const equivalent = renderPattern(pattern, flavor, 'javascript', '', true);
+  try {
+    parseRegex(equivalent.pattern, equivalent.flags);
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Invalid regular expression';
+    return {
+      isValid: false,
+      error: message.replace(
+        / at position (\d+)$/,
+        (_, position) =>
+          ` at position ${toSourceOffset(equivalent.pieces, Number(position), false, pattern.length)}`
+      ),
+      unsupported: [],
+    };
+  }
+
+  return { isValid: true, unsupported: [] };
+}
+
+/**
+ * Translates a pattern between flavors
+ * @param pattern - The regex pattern
+ * @param from - The flavor the pattern is written in
+ * @param to - The flavor to translate to
+ * @param flags - JavaScript flags, when translating from JavaScript
+ * @returns The translated pattern, flags for a JavaScript target, notes about
+ *   changed behavior and the constructs that have no equivalent
+ */
+export function translateRegex(
+  pattern: string,
+  from: RegexFlavor,
+  to: RegexFlavor,
+  flags: string = ''
+): RegexTranslation {
+  const {
+    pattern: output,
+    notes,
+    unsupported,
+    ...rendered
+  } = renderPattern(pattern, from, to, flags, false);
+  return { pattern: output, flags: rendered.flags, notes, unsupported };
+}
+
+/**
+ * Builds the closest JavaScript pattern, replacing constructs JavaScript lacks
+ * with stand-ins, so that other flavors can be previewed with the JavaScript engine
+ * @param pattern - The regex pattern
+ * @param flavor - The flavor the pattern is written in
+ * @returns The JavaScript pattern and the flags it needs
+ */
+export function toJavaScriptEquivalent(
+  pattern: string,
+  flavor: RegexFlavor
+): { pattern: string; flags: string } {
+  if (flavor === 'javascript') {
+    return { pattern, flags: '' };
+  }
+  const equivalent = renderPattern(pattern, flavor, 'javascript', '', true);
+  return { pattern: equivalent.pattern, flags: equivalent.flags };
+}
+
+/**
+ * Maps a span of the pattern built by toJavaScriptEquivalent back to the source
+ * @param pattern - The regex pattern
+ * @param flavor - The flavor the pattern is written in
+ * @param start - Where the span starts in the JavaScript equivalent
+ * @param end - Where the span ends in the JavaScript equivalent
+ * @returns The span in the source pattern
+ */
+export function toSourceSpan(
+  pattern: string,
+  flavor: RegexFlavor,
+  start: number,
+  end: number
+): { start: number; end: number } {
+  if (flavor === 'javascript') {
+    return { start, end };
+  }
+  const { pieces } = renderPattern(pattern, flavor, 'javascript', '', true);
+  return {
+    start: toSourceOffset(pieces, start, false, pattern.length),
+    end: toSourceOffset(pieces, end, true, pattern.length),
+  };
+}
+
+/**
+ * Explains a pattern in the syntax and semantics of its flavor
+ * @param pattern - The regex pattern
+ * @param flavor - The flavor the pattern is written in
+ * @param flags - JavaScript flags, for the JavaScript flavor
+ * @returns The explanation tree, with components in the flavor's own syntax
+ */
+export function explainFlavorPattern(
+  pattern: string,
+  flavor: RegexFlavor,
+  flags: string = ''
+): RegexExplanationNode[] {
+  if (flavor === 'javascript') {
+    return explainRegexTree(pattern, flags);
+  }
+
+  const tokens = tokenizeFlavorPattern(pattern, flavor);
+  const equivalent = renderPattern(pattern, flavor, 'javascript', '', true);
+  const tree = explainRegexTree(equivalent.pattern, equivalent.flags);
+  const tokensByStart = new Map(tokens.map(token => [token.start, token]));
+
+  const remap = (nodes: RegexExplanationNode[]): RegexExplanationNode[] => {
+    const remapped: RegexExplanationNode[] = [];
+    for (const node of nodes) {
+      const start = toSourceOffset(
+        equivalent.pieces,
+        node.start,
+        false,
+        pattern.length
+      );
+      let end = toSourceOffset(
+        equivalent.pieces,
+        node.end,
+        true,
+        pattern.length
+      );
+
+      // Stand-ins can expand into several nodes for one source construct
+      const previous = remapped[remapped.length - 1];
+      if (previous && previous.start === start && previous.end === end) {
+        continue;
+      }
+
+      let explanation = node.explanation;
+      let children = remap(node.children);
+      const token = tokensByStart.get(start);
+      const override =
+        token && token.end <= end ? describeToken(token, flavor) : null;
+      if (token && override) {
+        explanation = override;
+        if (
+          token.feature !== 'atomic-group' &&
+          token.feature !== 'conditional' &&
+          token.feature !== 'inline-modifiers'
+        ) {
+          children = [];
+        }
+      } else if (
+        node.component === '$' &&
+        ['pcre', 'python', 'java'].includes(flavor) &&
+        !equivalent.flags.includes('m')
+      ) {
+        explanation =
+          'Matches the end of the string, or before a line break at its end';
+      } else if (
+        flavor === 'python' &&
+        PYTHON_UNICODE_CLASSES[pattern.slice(start, end)]
+      ) {
+        explanation = PYTHON_UNICODE_CLASSES[pattern.slice(start, end)];
+      }
+
+      // A possessive + after a quantifier belongs to it
+      const possessive = tokensByStart.get(end);
+      if (possessive?.feature === 'possessive-quantifier') {
+        end = possessive.end;
+        explanation = explanation.replace(
+          /, as many times as possible$/,
+          ', without giving any back (possessive)'
+        );
+      }
+
+      remapped.push({
+        component: pattern.slice(start, end) || node.component,
+        explanation,
+        start,
+        end,
+        children,
+      });
+    }
+    return remapped;
+  };
+
+  // Flags derived from leading inline modifiers are shown as those modifiers
+  const [first, ...rest] = tree;
+  if (!equivalent.flags || !first?.component.startsWith('/')) {
+    return remap(tree);
+  }
+  const modifiers = tokens[0];
+  return modifiers?.feature === 'inline-modifiers' &&
+    !modifiers.raw.endsWith(':')
+    ? [
+        {
+          ...first,
+          component: modifiers.raw,
+          start: modifiers.start,
+          end: modifiers.end,
+        },
+        ...remap(rest),
+      ]
+    : remap(rest);
+}
+
+const PYTHON_UNICODE_CLASSES: Record<string, string> = {
+  '\\d': 'Matches any Unicode decimal digit',
+  '\\w': 'Matches any Unicode word character (letters, digits and underscore)',
+  '\\s': 'Matches any Unicode whitespace character',
+};
+
+/**
+ * Explains constructs whose JavaScript stand-in would be explained wrongly
+ * @param token - The source token
+ * @param flavor - The flavor the pattern is written in
+ * @returns The explanation, or null to keep the stand-in's explanation
+ */
+function describeToken(token: FlavorToken, flavor: RegexFlavor): string | null {
+  switch (token.feature) {
+    case 'atomic-group':
+      return 'Atomic group: once it has matched, the engine never backtracks into it';
+    case 'conditional':
+      return `Conditional: matches the first alternative if ${/^\d+$/.test(token.value!) ? `group #${token.value}` : `"${token.value}"`} has matched, otherwise the second`;
+    case 'recursion':
+      return token.value === 'R' || token.value === '0'
+        ? 'Matches the whole pattern again, recursively'
+        : `Matches group ${token.value!.replace(/^[&P>]+/, '')} again as a subroutine`;
+    case 'match-reset':
+      return 'Resets the start of the reported match to this point';
+    case 'extended-escape':
+      return EXTENDED_ESCAPES[token.raw[1]].explanation;
+    case 'inline-modifiers':
+      return token.raw.endsWith(':')
+        ? `Non-capturing group with the modifiers ${token.value}`
+        : `Turns on the modifiers ${token.value} for the rest of the pattern`;
+    case 'start-anchor':
+      return 'Matches the start of the string';
+    case 'end-anchor':
+      return 'Matches the end of the string';
+    case 'end-anchor-upper':
+      return flavor === 'python'
+        ? 'Matches the end of the string'
+        : 'Matches the end of the string, or before a line break at its end';
+    case 'posix-class':
+      return `Matches ${token.value!.startsWith('^') ? 'any character that is not' : 'any'} ${token.value!.replace('^', '')} character (POSIX class)`;
+    case 'quoted-literal':
+      return `Matches the text "${token.value}" literally`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Describes an unsupported token
+ * @param token - The token
+ * @returns The issue
+ */
+function toIssue(token: FlavorToken): RegexFlavorIssue {
+  return {
+    feature: token.feature!,
+    label: FEATURES[token.feature!].label,
+    raw: token.raw,
+    start: token.start,
+    end: token.end,
+  };
+}
+
+/**
+ * Maps an offset in a rendered pattern back to the source pattern
+ * @param pieces - The output pieces with their source spans
+ * @param offset - The offset in the rendered pattern
+ * @param isEnd - Whether the offset ends a span
+ * @param sourceLength - The length of the source pattern
+ * @returns The offset in the source pattern
+ */
+function toSourceOffset(
+  pieces: OutputPiece[],
+  offset: number,
+  isEnd: boolean,
+  sourceLength: number
+): number {
+  for (const piece of pieces) {
+    const contains = isEnd
+      ? offset > piece.outputStart && offset <= piece.outputEnd
+      : offset >= piece.outputStart && offset < piece.outputEnd;
+    if (contains) {
+      if (piece.verbatim) {
+        return piece.sourceStart + offset - piece.outputStart;
+      }
+      return isEnd ? piece.sourceEnd : piece.sourceStart;
+    }
+  }
+  return offset === 0 ? 0 : sourceLength;
+}
+
+/**
+ * Splits a pattern into plain syntax and flavor-specific constructs
+ * @param pattern - The regex pattern
+ * @param flavor - The flavor the pattern is written in
+ * @returns The tokens, covering the whole pattern
+ */
+function tokenizeFlavorPattern(
+  pattern: string,
+  flavor: RegexFlavor
+): FlavorToken[] {
+  const tokens: FlavorToken[] = [];
+  let pos = 0;
+  // Where the first item of the current character class starts, or -1
+  let classFirst = -1;
+
+  const push = (
+    length: number,
+    feature?: RegexFeature,
+    value?: string,
+    literal?: boolean
+  ) => {
+    tokens.push({
+      ...(feature && { feature }),
+      raw: pattern.slice(pos, pos + length),
+      start: pos,
+      end: pos + length,
+      inClass: classFirst !== -1,
+      ...(value !== undefined && { value }),
+      ...(literal && { literal }),
+    });
+    pos += length;
+  };
+
+  while (pos < pattern.length) {
+    const rest = pattern.slice(pos);
+    const char = pattern[pos];
+
+    if (classFirst !== -1) {
+      const posixClass = /^\[:(\^?[a-z]+):\]/.exec(rest);
+      if (char === ']' && (pos > classFirst || flavor === 'javascript')) {
+        classFirst = -1;
+        push(1);
+      } else if (char === ']') {
+        // Other flavors read a leading ] as a literal
+        push(1, undefined, undefined, true);
+      } else if (posixClass) {
+        push(posixClass[0].length, 'posix-class', posixClass[1]);
+      } else if (char === '\\' && flavor === 'posix') {
+        push(1, undefined, undefined, true);
+      } else if (char === '\\') {
+        pushEscape(rest, true);
+      } else {
+        push(String.fromCodePoint(pattern.codePointAt(pos)!).length);
+      }
+      continue;
+    }
+
+    if (char === '\\') {
+      pushEscape(rest, false);
+    } else if (char === '[') {
+      push(1);
+      if (pattern[pos] === '^') {
+        classFirst = pos;
+        push(1);
+      }
+      classFirst = pos;
+    } else if (char === '(') {
+      pushGroup(rest);
+    } else if (/^(?:[*+?]|\{\d+(?:,\d*)?\})/.test(rest)) {
+      push(/^(?:[*+?]|\{\d+(?:,\d*)?\})/.exec(rest)![0].length);
+      if (pattern[pos] === '?') push(1, 'lazy-quantifier');
+      else if (pattern[pos] === '+') push(1, 'possessive-quantifier');
+    } else {
+      push(String.fromCodePoint(pattern.codePointAt(pos)!).length);
+    }
+  }
+
+  return tokens;
+
+  /**
+   * Reads an escape sequence
+   * @param rest - The pattern from the backslash on
+   * @param inClass - Whether the escape is inside a character class
+   */
+  function pushEscape(rest: string, inClass: boolean): void {
+    const quoted = /^\\Q([\s\S]*?)(?:\\E|$)/.exec(rest);
+    const patterns: Array<[RegExp, RegexFeature]> = [
+      [/^\\[dDwWsS]/, 'shorthand-class'],
+      [/^\\[pP](?:\{[^}]*\}|[A-Za-z])/, 'unicode-property'],
+      [/^\\x\{([0-9A-Fa-f]+)\}/, 'braced-hex'],
+      ...(inClass
+        ? []
+        : ([
+            [/^\\[bB]/, 'word-boundary'],
+            [/^\\A/, 'start-anchor'],
+            [/^\\z/, 'end-anchor'],
+            [/^\\Z/, 'end-anchor-upper'],
+            [/^\\k(?:<([^>]+)>|'([^']+)'|\{([^}]+)\})/, 'named-backreference'],
+            [/^\\([1-9]\d*)/, 'backreference'],
+            [/^\\K/, 'match-reset'],
+            [/^\\[GRXhH]/, 'extended-escape'],
+          ] as Array<[RegExp, RegexFeature]>)),
+    ];
+
+    if (quoted) {
+      push(quoted[0].length, 'quoted-literal', quoted[1]);
+      return;
+    }
+    for (const [regex, feature] of patterns) {
+      const match = regex.exec(rest);
+      if (match) {
+        push(match[0].length, feature, match[1] ?? match[2] ?? match[3]);
+        return;
+      }
+    }
+
+    const plain =
+      /^\\(?:u\{[0-9A-Fa-f]+\}|u[0-9A-Fa-f]{4}|x[0-9A-Fa-f]{2}|c[A-Za-z]|[\s\S])?/.exec(
+        rest
+      )!;
+    push(plain[0].length);
+  }
+
+  /**
+   * Reads the opening of a group
+   * @param rest - The pattern from the parenthesis on
+   */
+  function pushGroup(rest: string): void {
+    const patterns: Array<[RegExp, RegexFeature]> = [
+      [/^\(\?:/, 'non-capturing-group'],
+      [/^\(\?[=!]/, 'lookahead'],
+      [/^\(\?<[=!]/, 'lookbehind'],
+      [/^\(\?P<([A-Za-z_]\w*)>/, 'python-named-group'],
+      [/^\(\?<([A-Za-z_]\w*)>/, 'named-group'],
+      [/^\(\?P=([A-Za-z_]\w*)\)/, 'python-named-backreference'],
+      [/^\(\?>/, 'atomic-group'],
+      [/^\(\?#[^)]*\)/, 'comment'],
+      [/^\(\?(R|[+-]?\d+|&\w+|P>\w+)\)/, 'recursion'],
+      [/^\(\?\(([^)]*)\)/, 'conditional'],
+      [/^\(\?([a-zA-Z]*(?:-[a-zA-Z]*)?)[:)]/, 'inline-modifiers'],
+    ];
+
+    for (const [regex, feature] of patterns) {
+      const match = regex.exec(rest);
+      if (match) {
+        push(match[0].length, feature, match[1]);
+        return;
+      }
+    }
+    push(1);
+  }
+}
+
+/**
+ * Renders a pattern in another flavor's syntax
+ * @param pattern - The regex pattern
+ * @param from - The flavor the pattern is written in
+ * @param to - The target flavor
+ * @param flags - JavaScript flags, when translating from JavaScript
+ * @param approximate - Whether to use stand-ins for constructs a JavaScript target lacks
+ * @returns The rendered pattern with a map back to the source
+ */
+function renderPattern(
+  pattern: string,
+  from: RegexFlavor,
+  to: RegexFlavor,
+  flags: string,
+  approximate: boolean
+): RenderedPattern {
+  const notes = new Set<string>();
+  const unsupported: RegexFlavorIssue[] = [];
+  const outputFlags = new Set(
+    from === 'javascript' ? flags.replace(/[dgy]/g, '') : ''
+  );
+  const pieces: OutputPiece[] = [];
+  let output = '';
+
+  for (const token of tokenizeFlavorPattern(pattern, from)) {
+    let text = renderToken(token, from, to, outputFlags, notes);
+    if (text === null && approximate && to === 'javascript') {
+      text = approximateToken(token);
+    }
+    if (text === null) {
+      unsupported.push(toIssue(token));
+      text = token.raw;
+    }
+
+    pieces.push({
+      sourceStart: token.start,
+      sourceEnd: token.end,
+      outputStart: output.length,
+      outputEnd: output.length + text.length,
+      verbatim: text === token.raw,
+    });
+    output += text;
+  }
+
+  // JavaScript flags become inline modifiers in the other direction
+  let prefix = '';
+  if (from === 'javascript' && to !== 'javascript') {
+    const inline = [...outputFlags]
+      .filter(flag => 'ims'.includes(flag))
+      .join('');
+    if (inline && isFeatureSupported('inline-modifiers', to)) {
+      prefix = `(?${inline})`;
+    } else if (inline) {
+      notes.add(
+        `The ${inline} flags cannot be expressed in ${REGEX_FLAVORS[to]} patterns`
+      );
+    }
+    if (flags.includes('g')) {
+      notes.add(
+        'The g flag has no pattern equivalent; use the find-all function of the target language'
+      );
+    }
+    outputFlags.clear();
+  }
+  if (prefix) {
+    for (const piece of pieces) {
+      piece.outputStart += prefix.length;
+      piece.outputEnd += prefix.length;
+    }
+  }
+
+  return {
+    pattern: prefix + output,
+    flags: to === 'javascript' ? [...outputFlags].sort().join('') : '',
+    notes: [...notes],
+    unsupported,
+    pieces,
+  };
+}
+
+/**
+ * Renders one token in the target flavor
+ * @param token - The source token
+ * @param from - The source flavor
+ * @param to - The target flavor
+ * @param flags - JavaScript flags the output needs; added to as required
+ * @param notes - Notes about changed behavior; added to as required
+ * @returns The rendered text, or null when the target has no equivalent
+ */
+function renderToken(
+  token: FlavorToken,
+  from: RegexFlavor,
+  to: RegexFlavor,
+  flags: Set<string>,
+  notes: Set<string>
+): string | null {
+  const supported = token.feature
+    ? isFeatureSupported(token.feature, to)
+    : true;
+
+  switch (token.feature) {
+    case undefined:
+      return token.literal && to !== 'posix' ? `\\${token.raw}` : token.raw;
+
+    case 'non-capturing-group':
+      if (to === 'posix') {
+        notes.add(
+          'Non-capturing groups became capturing groups, which renumbers later groups'
+        );
+        return '(';
+      }
+      return '(?:';
+
+    case 'named-group':
+    case 'python-named-group':
+      if (to === 'posix') {
+        notes.add('Named groups became numbered groups');
+        return '(';
+      }
+      return to === 'python' || to === 'go'
+        ? `(?P<${token.value}>`
+        : `(?<${token.value}>`;
+
+    case 'named-backreference':
+    case 'python-named-backreference':
+      if (to === 'python') return `(?P=${token.value})`;
+      return ['javascript', 'pcre', 'java'].includes(to)
+        ? `\\k<${token.value}>`
+        : null;
+
+    case 'inline-modifiers': {
+      if (supported) return token.raw;
+      const isLeading = token.start === 0 && !token.raw.endsWith(':');
+      if (to === 'javascript' && isLeading && /^[ims]+$/.test(token.value!)) {
+        token.value!.split('').forEach(flag => flags.add(flag));
+        return '';
+      }
+      return null;
+    }
+
+    case 'comment':
+      if (supported) return token.raw;
+      notes.add('Comments were removed');
+      return '';
+
+    case 'shorthand-class':
+      if (to !== 'posix') return token.raw;
+      return POSIX_SHORTHANDS[token.raw[1]][token.inClass ? 1 : 0];
+
+    case 'unicode-property':
+      if (!supported) return null;
+      if (to === 'javascript') {
+        flags.add('u');
+        notes.add(
+          'Property names can differ between flavors, for example \\p{Greek} is \\p{Script=Greek} in JavaScript'
+        );
+        return token.raw.length === 3
+          ? `\\${token.raw[1]}{${token.raw[2]}}`
+          : token.raw;
+      }
+      return token.raw;
+
+    case 'posix-class': {
+      if (supported) return token.raw;
+      const name = token.value!;
+      if (to === 'java' && JAVA_POSIX_CLASSES[name]) {
+        return `\\p{${JAVA_POSIX_CLASSES[name]}}`;
+      }
+      if (POSIX_CLASS_RANGES[name] && to !== 'java') {
+        notes.add('POSIX classes were expanded to their ASCII ranges');
+        return POSIX_CLASS_RANGES[name];
+      }
+      return null;
+    }
+
+    case 'start-anchor':
+      if (supported) return '\\A';
+      notes.add(
+        '^ only matches at the start of the string while multiline mode is off'
+      );
+      return '^';
+
+    case 'end-anchor':
+    case 'end-anchor-upper':
+      if (token.feature === 'end-anchor' || from === 'python') {
+        if (to === 'javascript' || to === 'posix') {
+          notes.add(
+            '$ only matches at the end of the string while multiline mode is off'
+          );
+          return '$';
+        }
+        return to === 'python' ? '\\Z' : '\\z';
+      }
+      if (to === 'pcre' || to === 'java') return '\\Z';
+      if (to === 'python') return '(?=\\n?\\Z)';
+      if (to === 'javascript') return '(?=\\n?$)';
+      return null;
+
+    case 'braced-hex': {
+      if (supported) return token.raw;
+      const codePoint = parseInt(token.value!, 16);
+      const hex = codePoint.toString(16).toUpperCase();
+      if (to === 'posix' || codePoint > 0x10ffff) return null;
+      if (codePoint <= 0xff) return `\\x${hex.padStart(2, '0')}`;
+      if (codePoint <= 0xffff) return `\\u${hex.padStart(4, '0')}`;
+      if (to === 'python') return `\\U${hex.padStart(8, '0')}`;
+      flags.add('u');
+      return `\\u{${hex}}`;
+    }
+
+    case 'quoted-literal':
+      if (supported) return token.raw;
+      return token.value!.replace(
+        to === 'posix' ? /[\\^$.*+?()[\]{}|]/g : /[\\^$.*+?()[\]{}|/-]/g,
+        '\\$&'
+      );
+
+    default:
+      return supported ? token.raw : null;
+  }
+}
+
+/**
+ * Finds a JavaScript stand-in for a construct JavaScript lacks
+ * @param token - The source token
+ * @returns The stand-in, or null when there is none
+ */
+function approximateToken(token: FlavorToken): string | null {
+  switch (token.feature) {
+    case 'atomic-group':
+    case 'conditional':
+      return '(?:';
+    case 'possessive-quantifier':
+      return '';
+    case 'recursion':
+    case 'match-reset':
+      return '(?:)';
+    case 'extended-escape':
+      return EXTENDED_ESCAPES[token.raw[1]].approximation;
+    case 'inline-modifiers':
+      return token.raw.endsWith(':') ? '(?:' : '(?:)';
+    case 'posix-class':
+      return '';
+    default:
+      return null;
+  }
+}
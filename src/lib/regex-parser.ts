@@ -0,0 +1,797 @@
+/**
+ * ECMAScript regular expression parser producing an AST with source positions
+ */
+
+interface BaseNode {
+  start: number;
+  end: number;
+  raw: string;
+}
+
+export interface AlternationNode extends BaseNode {
+  type: 'alternation';
+  alternatives: SequenceNode[];
+}
+
+export interface SequenceNode extends BaseNode {
+  type: 'sequence';
+  elements: RegexNode[];
+}
+
+export type GroupKind =
+  | 'capturing'
+  | 'named'
+  | 'non-capturing'
+  | 'lookahead'
+  | 'negative-lookahead'
+  | 'lookbehind'
+  | 'negative-lookbehind';
+
+export interface GroupNode extends BaseNode {
+  type: 'group';
+  kind: GroupKind;
+  index?: number;
+  name?: string;
+  body: AlternationNode | SequenceNode;
+}
+
+export interface QuantifierNode extends BaseNode {
+  type: 'quantifier';
+  min: number;
+  max: number;
+  greedy: boolean;
+  symbol: string;
+  target: RegexNode;
+}
+
+export interface CharacterNode extends BaseNode {
+  type: 'character';
+  value: string;
+}
+
+export interface CharacterRangeNode extends BaseNode {
+  type: 'range';
+  from: CharacterNode;
+  to: CharacterNode;
+}
+
+export type CharacterTypeKind =
+  | 'any'
+  | 'digit'
+  | 'not-digit'
+  | 'word'
+  | 'not-word'
+  | 'space'
+  | 'not-space';
+
+export interface CharacterTypeNode extends BaseNode {
+  type: 'character-type';
+  kind: CharacterTypeKind;
+}
+
+export interface UnicodePropertyNode extends BaseNode {
+  type: 'unicode-property';
+  negated: boolean;
+  name: string;
+  value?: string;
+}
+
+export type ClassItemNode =
+  | CharacterNode
+  | CharacterRangeNode
+  | CharacterTypeNode
+  | UnicodePropertyNode;
+
+export interface CharacterClassNode extends BaseNode {
+  type: 'character-class';
+  negated: boolean;
+  items: ClassItemNode[];
+}
+
+export type AssertionKind =
+  | 'start'
+  | 'end'
+  | 'word-boundary'
+  | 'not-word-boundary';
+
+export interface AssertionNode extends BaseNode {
+  type: 'assertion';
+  kind: AssertionKind;
+}
+
+export interface BackreferenceNode extends BaseNode {
+  type: 'backreference';
+  ref: number | string;
+}
+
+export type RegexNode =
+  | AlternationNode
+  | SequenceNode
+  | GroupNode
+  | QuantifierNode
+  | CharacterNode
+  | CharacterClassNode
+  | CharacterTypeNode
+  | UnicodePropertyNode
+  | AssertionNode
+  | BackreferenceNode;
+
+export interface RegexAst {
+  pattern: string;
+  flags: string;
+  body: AlternationNode | SequenceNode;
+  groupCount: number;
+  groupNames: string[];
+}
+
+interface ParserState {
+  pattern: string;
+  pos: number;
+  unicode: boolean;
+  groupCount: number;
+  totalGroups: number;
+  groupNames: string[];
+}
+
+const CONTROL_ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  f: '\f',
+  v: '\v',
+};
+
+const CHARACTER_TYPE_ESCAPES: Record<string, CharacterTypeKind> = {
+  d: 'digit',
+  D: 'not-digit',
+  w: 'word',
+  W: 'not-word',
+  s: 'space',
+  S: 'not-space',
+};
+
+/**
+ * Parses an ECMAScript regular expression, including Annex B web compatibility syntax
+ * @param pattern - The pattern source, without slashes
+ * @param flags - The regex flags; u and v enable Unicode mode
+ * @returns The AST of the pattern
+ * @throws Error with the position of the first syntax error
+ */
+export function parseRegex(pattern: string, flags: string = ''): RegexAst {
+  const { total, names } = scanGroups(pattern);
+  const state: ParserState = {
+    pattern,
+    pos: 0,
+    unicode: flags.includes('u') || flags.includes('v'),
+    groupCount: 0,
+    totalGroups: total,
+    groupNames: names,
+  };
+
+  const body = parseDisjunction(state);
+  if (state.pos < pattern.length) {
+    throw syntaxError(state, "Unmatched ')'");
+  }
+
+  return {
+    pattern,
+    flags,
+    body,
+    groupCount: state.groupCount,
+    groupNames: names,
+  };
+}
+
+/**
+ * Lists every node of an AST in depth-first order
+ * @param node - The node to start from
+ * @returns The node and all of its descendants
+ */
+export function walkRegexAst(node: RegexNode): RegexNode[] {
+  const nodes: RegexNode[] = [node];
+  for (const child of getChildNodes(node)) {
+    nodes.push(...walkRegexAst(child));
+  }
+  return nodes;
+}
+
+/**
+ * Gets the direct children of an AST node
+ * @param node - The node
+ * @returns Its child nodes in source order
+ */
+export function getChildNodes(node: RegexNode): RegexNode[] {
+  switch (node.type) {
+    case 'alternation':
+      return node.alternatives;
+    case 'sequence':
+      return node.elements;
+    case 'group':
+      return [node.body];
+    case 'quantifier':
+      return [node.target];
+    case 'character-class':
+      return node.items.flatMap(item =>
+        item.type === 'range' ? [item.from, item.to] : [item]
+      );
+    default:
+      return [];
+  }
+}
+
+/**
+ * Counts the capturing groups and collects group names ahead of parsing,
+ * since a backreference may refer to a group that opens after it
+ * @param pattern - The pattern source
+ * @returns The number of capturing groups and their names
+ */
+function scanGroups(pattern: string): { total: number; names: string[] } {
+  let total = 0;
+  const names: string[] = [];
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+    } else if (inClass) {
+      inClass = char !== ']';
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      if (pattern[i + 1] !== '?') {
+        total++;
+      } else if (pattern[i + 2] === '<' && !/[=!]/.test(pattern[i + 3])) {
+        total++;
+        const close = pattern.indexOf('>', i + 3);
+        if (close !== -1) names.push(pattern.slice(i + 3, close));
+      }
+    }
+  }
+
+  return { total, names };
+}
+
+/**
+ * Creates an error that points at the current position
+ * @param state - The parser state
+ * @param message - What went wrong
+ * @returns The error to throw
+ */
+function syntaxError(state: ParserState, message: string): Error {
+  return new Error(`${message} at position ${state.pos}`);
+}
+
+/**
+ * Builds the position fields of a node
+ * @param state - The parser state, positioned just after the node
+ * @param start - Where the node starts
+ * @returns The start, end and raw source of the node
+ */
+function span(state: ParserState, start: number): BaseNode {
+  return { start, end: state.pos, raw: state.pattern.slice(start, state.pos) };
+}
+
+/**
+ * Parses alternatives separated by '|'
+ * @param state - The parser state
+ * @returns A sequence, or an alternation when there is more than one alternative
+ */
+function parseDisjunction(state: ParserState): AlternationNode | SequenceNode {
+  const start = state.pos;
+  const alternatives = [parseAlternative(state)];
+
+  while (state.pattern[state.pos] === '|') {
+    state.pos++;
+    alternatives.push(parseAlternative(state));
+  }
+
+  if (alternatives.length === 1) {
+    return alternatives[0];
+  }
+  return { type: 'alternation', alternatives, ...span(state, start) };
+}
+
+/**
+ * Parses the terms of one alternative
+ * @param state - The parser state
+ * @returns The sequence of terms
+ */
+function parseAlternative(state: ParserState): SequenceNode {
+  const start = state.pos;
+  const elements: RegexNode[] = [];
+
+  while (
+    state.pos < state.pattern.length &&
+    state.pattern[state.pos] !== '|' &&
+    state.pattern[state.pos] !== ')'
+  ) {
+    elements.push(parseTerm(state));
+  }
+
+  return { type: 'sequence', elements, ...span(state, start) };
+}
+
+/**
+ * Parses an atom and the quantifier that follows it, if any
+ * @param state - The parser state
+ * @returns The atom, or a quantifier wrapping it
+ */
+function parseTerm(state: ParserState): RegexNode {
+  const start = state.pos;
+  const atom = parseAtom(state);
+
+  const quantifier = readQuantifier(state);
+  if (!quantifier) {
+    return atom;
+  }
+
+  // Annex B allows quantified lookaheads outside Unicode mode only
+  const isQuantifiable =
+    atom.type !== 'assertion' &&
+    !(
+      atom.type === 'group' &&
+      (atom.kind.includes('lookbehind') ||
+        (state.unicode && atom.kind.includes('lookahead')))
+    );
+  if (!isQuantifiable) {
+    throw syntaxError(state, 'Nothing to repeat');
+  }
+  if (quantifier.min > quantifier.max) {
+    throw syntaxError(state, 'Numbers out of order in {} quantifier');
+  }
+
+  return {
+    type: 'quantifier',
+    ...quantifier,
+    target: atom,
+    ...span(state, start),
+  };
+}
+
+/**
+ * Reads a quantifier at the current position
+ * @param state - The parser state
+ * @returns The repetition bounds, or null when no quantifier follows
+ */
+function readQuantifier(
+  state: ParserState
+): { min: number; max: number; greedy: boolean; symbol: string } | null {
+  const start = state.pos;
+  const char = state.pattern[state.pos];
+  let min: number;
+  let max: number;
+
+  if (char === '*') {
+    [min, max] = [0, Infinity];
+    state.pos++;
+  } else if (char === '+') {
+    [min, max] = [1, Infinity];
+    state.pos++;
+  } else if (char === '?') {
+    [min, max] = [0, 1];
+    state.pos++;
+  } else if (char === '{') {
+    const bounds = readBraceQuantifier(state);
+    if (!bounds) return null;
+    [min, max] = bounds;
+  } else {
+    return null;
+  }
+
+  const greedy = state.pattern[state.pos] !== '?';
+  if (!greedy) state.pos++;
+
+  return { min, max, greedy, symbol: state.pattern.slice(start, state.pos) };
+}
+
+/**
+ * Reads a {n}, {n,} or {n,m} quantifier
+ * @param state - The parser state, positioned at '{'
+ * @returns The bounds, or null when the brace does not start a quantifier
+ */
+function readBraceQuantifier(state: ParserState): [number, number] | null {
+  const match = /^\{(\d+)(,(\d*))?\}/.exec(state.pattern.slice(state.pos));
+  if (!match) {
+    return null;
+  }
+
+  state.pos += match[0].length;
+  const min = parseInt(match[1], 10);
+  if (match[2] === undefined) return [min, min];
+  return [min, match[3] ? parseInt(match[3], 10) : Infinity];
+}
+
+/**
+ * Parses a single atom: a character, class, group, escape or assertion
+ * @param state - The parser state
+ * @returns The atom node
+ */
+function parseAtom(state: ParserState): RegexNode {
+  const start = state.pos;
+  const char = state.pattern[state.pos];
+
+  switch (char) {
+    case '^':
+    case '$':
+      state.pos++;
+      return {
+        type: 'assertion',
+        kind: char === '^' ? 'start' : 'end',
+        ...span(state, start),
+      };
+    case '.':
+      state.pos++;
+      return { type: 'character-type', kind: 'any', ...span(state, start) };
+    case '(':
+      return parseGroup(state);
+    case '[':
+      return parseCharacterClass(state);
+    case '\\':
+      return parseAtomEscape(state);
+    case '*':
+    case '+':
+    case '?':
+      throw syntaxError(state, 'Nothing to repeat');
+    case '{':
+      if (state.unicode || /^\{\d+(,\d*)?\}/.test(state.pattern.slice(start))) {
+        throw syntaxError(state, 'Nothing to repeat');
+      }
+      break;
+    case ']':
+    case '}':
+      if (state.unicode) {
+        throw syntaxError(state, 'Lone quantifier brackets');
+      }
+      break;
+  }
+
+  return readLiteral(state);
+}
+
+/**
+ * Reads one literal character, a whole code point in Unicode mode
+ * @param state - The parser state
+ * @returns The character node
+ */
+function readLiteral(state: ParserState): CharacterNode {
+  const start = state.pos;
+  const value = state.unicode
+    ? String.fromCodePoint(state.pattern.codePointAt(state.pos)!)
+    : state.pattern[state.pos];
+  state.pos += value.length;
+  return { type: 'character', value, ...span(state, start) };
+}
+
+/**
+ * Parses a group, including lookarounds and named groups
+ * @param state - The parser state, positioned at '('
+ * @returns The group node
+ */
+function parseGroup(state: ParserState): GroupNode {
+  const start = state.pos;
+  state.pos++;
+
+  let kind: GroupKind = 'capturing';
+  let name: string | undefined;
+  const rest = state.pattern.slice(state.pos);
+
+  if (rest.startsWith('?:')) {
+    kind = 'non-capturing';
+  } else if (rest.startsWith('?=')) {
+    kind = 'lookahead';
+  } else if (rest.startsWith('?!')) {
+    kind = 'negative-lookahead';
+  } else if (rest.startsWith('?<=')) {
+    kind = 'lookbehind';
+  } else if (rest.startsWith('?<!')) {
+    kind = 'negative-lookbehind';
+  } else if (rest.startsWith('?<')) {
+    const match = /^\?<([\p{ID_Start}$_][\p{ID_Continue}$‌‍]*)>/u.exec(rest);
+    if (!match) {
+      throw syntaxError(state, 'Invalid capture group name');
+    }
+    kind = 'named';
+    name = match[1];
+    state.pos += match[0].length;
+  } else if (rest.startsWith('?')) {
+    throw syntaxError(state, 'Invalid group');
+  }
+
+  if (kind !== 'capturing' && kind !== 'named') {
+    state.pos +=
+      kind === 'lookbehind' || kind === 'negative-lookbehind' ? 3 : 2;
+  }
+  const index =
+    kind === 'capturing' || kind === 'named' ? ++state.groupCount : undefined;
+
+  const body = parseDisjunction(state);
+  if (state.pattern[state.pos] !== ')') {
+    throw syntaxError(state, 'Unterminated group');
+  }
+  state.pos++;
+
+  return {
+    type: 'group',
+    kind,
+    ...(index !== undefined && { index }),
+    ...(name !== undefined && { name }),
+    body,
+    ...span(state, start),
+  };
+}
+
+/**
+ * Parses a character class such as [a-z\d]
+ * @param state - The parser state, positioned at '['
+ * @returns The character class node
+ */
+function parseCharacterClass(state: ParserState): CharacterClassNode {
+  const start = state.pos;
+  state.pos++;
+
+  const negated = state.pattern[state.pos] === '^';
+  if (negated) state.pos++;
+
+  const items: ClassItemNode[] = [];
+  while (state.pattern[state.pos] !== ']') {
+    if (state.pos >= state.pattern.length) {
+      throw syntaxError(state, 'Unterminated character class');
+    }
+
+    const itemStart = state.pos;
+    const from = parseClassAtom(state);
+    const isRange =
+      state.pattern[state.pos] === '-' &&
+      state.pos + 1 < state.pattern.length &&
+      state.pattern[state.pos + 1] !== ']';
+
+    if (!isRange) {
+      items.push(from);
+      continue;
+    }
+
+    const dashStart = state.pos;
+    state.pos++;
+    const to = parseClassAtom(state);
+
+    if (from.type !== 'character' || to.type !== 'character') {
+      // Annex B reads a dash next to a class escape such as \d as a literal
+      if (state.unicode) {
+        throw syntaxError(state, 'Invalid character class');
+      }
+      items.push(from, {
+        type: 'character',
+        value: '-',
+        start: dashStart,
+        end: dashStart + 1,
+        raw: '-',
+      });
+      items.push(to);
+      continue;
+    }
+
+    if (from.value.codePointAt(0)! > to.value.codePointAt(0)!) {
+      throw syntaxError(state, 'Range out of order in character class');
+    }
+    items.push({ type: 'range', from, to, ...span(state, itemStart) });
+  }
+  state.pos++;
+
+  return { type: 'character-class', negated, items, ...span(state, start) };
+}
+
+/**
+ * Parses one character or class escape inside a character class
+ * @param state - The parser state
+ * @returns The class item
+ */
+function parseClassAtom(state: ParserState): ClassItemNode {
+  if (state.pattern[state.pos] !== '\\') {
+    return readLiteral(state);
+  }
+
+  const start = state.pos;
+  const next = state.pattern[state.pos + 1];
+
+  // \b means backspace inside a class, and \- is a literal dash in Unicode mode
+  if (next === 'b' || (next === '-' && state.unicode)) {
+    state.pos += 2;
+    return {
+      type: 'character',
+      value: next === 'b' ? '\b' : '-',
+      ...span(state, start),
+    };
+  }
+
+  return parseCharacterEscape(state);
+}
+
+/**
+ * Parses an escape outside a character class
+ * @param state - The parser state, positioned at '\'
+ * @returns The escape node
+ */
+function parseAtomEscape(state: ParserState): RegexNode {
+  const start = state.pos;
+  const next = state.pattern[state.pos + 1];
+
+  if (next === 'b' || next === 'B') {
+    state.pos += 2;
+    return {
+      type: 'assertion',
+      kind: next === 'b' ? 'word-boundary' : 'not-word-boundary',
+      ...span(state, start),
+    };
+  }
+
+  // \k is a named backreference once the pattern has named groups
+  if (next === 'k' && (state.unicode || state.groupNames.length > 0)) {
+    const match = /^\\k<([^>]+)>/.exec(state.pattern.slice(state.pos));
+    if (!match || !state.groupNames.includes(match[1])) {
+      throw syntaxError(state, 'Invalid named reference');
+    }
+    state.pos += match[0].length;
+    return { type: 'backreference', ref: match[1], ...span(state, start) };
+  }
+
+  if (next >= '1' && next <= '9') {
+    const digits = /^\d+/.exec(state.pattern.slice(state.pos + 1))![0];
+    const ref = parseInt(digits, 10);
+    if (ref <= state.totalGroups) {
+      state.pos += 1 + digits.length;
+      return { type: 'backreference', ref, ...span(state, start) };
+    }
+    if (state.unicode) {
+      throw syntaxError(state, 'Invalid escape');
+    }
+  }
+
+  return parseCharacterEscape(state);
+}
+
+/**
+ * Parses an escape that stands for a character, a character type or a Unicode property
+ * @param state - The parser state, positioned at '\'
+ * @returns The escape node
+ */
+function parseCharacterEscape(
+  state: ParserState
+): CharacterNode | CharacterTypeNode | UnicodePropertyNode {
+  const start = state.pos;
+  const next = state.pattern[state.pos + 1];
+  const character = (value: string, length: number): CharacterNode => {
+    state.pos += length;
+    return { type: 'character', value, ...span(state, start) };
+  };
+
+  if (next === undefined) {
+    throw syntaxError(state, '\\ at end of pattern');
+  }
+
+  if (next in CHARACTER_TYPE_ESCAPES) {
+    state.pos += 2;
+    return {
+      type: 'character-type',
+      kind: CHARACTER_TYPE_ESCAPES[next],
+      ...span(state, start),
+    };
+  }
+
+  if ((next === 'p' || next === 'P') && state.unicode) {
+    const match = /^\\[pP]\{([A-Za-z_]+)(?:=([A-Za-z0-9_]+))?\}/.exec(
+      state.pattern.slice(state.pos)
+    );
+    if (!match) {
+      throw syntaxError(state, 'Invalid property name');
+    }
+    state.pos += match[0].length;
+    return {
+      type: 'unicode-property',
+      negated: next === 'P',
+      name: match[1],
+      ...(match[2] !== undefined && { value: match[2] }),
+      ...span(state, start),
+    };
+  }
+
+  if (next in CONTROL_ESCAPES) {
+    return character(CONTROL_ESCAPES[next], 2);
+  }
+
+  if (next === 'c') {
+    const letter = state.pattern[state.pos + 2];
+    if (letter && /[A-Za-z]/.test(letter)) {
+      return character(String.fromCharCode(letter.charCodeAt(0) % 32), 3);
+    }
+    if (state.unicode) throw syntaxError(state, 'Invalid unicode escape');
+    // Annex B treats a lone \c as a literal backslash
+    return character('\\', 1);
+  }
+
+  if (next === 'x') {
+    const hex = /^[0-9A-Fa-f]{2}/.exec(state.pattern.slice(state.pos + 2));
+    if (hex) return character(String.fromCharCode(parseInt(hex[0], 16)), 4);
+    if (state.unicode) throw syntaxError(state, 'Invalid escape');
+    return character('x', 2);
+  }
+
+  if (next === 'u') {
+    return parseUnicodeEscape(state);
+  }
+
+  if (next === '0' && !/\d/.test(state.pattern[state.pos + 2] ?? '')) {
+    return character('\0', 2);
+  }
+
+  if (/\d/.test(next)) {
+    if (state.unicode) throw syntaxError(state, 'Invalid decimal escape');
+    // Annex B legacy octal escapes, at most \377
+    const octal = /^[0-3]?[0-7]{1,2}|^[0-7]/.exec(
+      state.pattern.slice(state.pos + 1)
+    );
+    if (!octal) return character(next, 2);
+    return character(
+      String.fromCharCode(parseInt(octal[0], 8)),
+      1 + octal[0].length
+    );
+  }
+
+  // Unicode mode only allows escaping syntax characters and '/'
+  if (state.unicode && !/[\^$\\.*+?()[\]{}|/]/.test(next)) {
+    throw syntaxError(state, 'Invalid escape');
+  }
+  return character(next, 2);
+}
+
+/**
+ * Parses a \uXXXX or \u{X...} escape, joining surrogate pairs in Unicode mode
+ * @param state - The parser state, positioned at '\'
+ * @returns The character node
+ */
+function parseUnicodeEscape(state: ParserState): CharacterNode {
+  const start = state.pos;
+  const rest = state.pattern.slice(state.pos);
+
+  const braced = state.unicode ? /^\\u\{([0-9A-Fa-f]+)\}/.exec(rest) : null;
+  if (braced) {
+    const codePoint = parseInt(braced[1], 16);
+    if (codePoint > 0x10ffff) {
+      throw syntaxError(state, 'Invalid Unicode escape');
+    }
+    state.pos += braced[0].length;
+    return {
+      type: 'character',
+      value: String.fromCodePoint(codePoint),
+      ...span(state, start),
+    };
+  }
+
+  const pair = state.unicode
+    ? /^\\u(d[89ab][0-9a-f]{2})\\u(d[c-f][0-9a-f]{2})/i.exec(rest)
+    : null;
+  if (pair) {
+    state.pos += pair[0].length;
+    return {
+      type: 'character',
+      value: String.fromCharCode(parseInt(pair[1], 16), parseInt(pair[2], 16)),
+      ...span(state, start),
+    };
+  }
+
+  const single = /^\\u([0-9A-Fa-f]{4})/.exec(rest);
+  if (single) {
+    state.pos += single[0].length;
+    return {
+      type: 'character',
+      value: String.fromCharCode(parseInt(single[1], 16)),
+      ...span(state, start),
+    };
+  }
+
+  if (state.unicode) {
+    throw syntaxError(state, 'Invalid Unicode escape');
+  }
+  state.pos += 2;
+  return { type: 'character', value: 'u', ...span(state, start) };
+}
@@ -0,0 +1,518 @@
+/**
+ * Railroad diagram layout for regex patterns
+ */
+
+import {
+  parseRegex,
+  type CharacterNode,
+  type CharacterTypeKind,
+  type GroupNode,
+  type QuantifierNode,
+  type RegexNode,
+} from './regex-parser';
+import { splitRegexLiteral } from './regex-utils';
+
+export type RailroadBoxKind =
+  | 'literal'
+  | 'class'
+  | 'special'
+  | 'assertion'
+  | 'reference';
+
+export interface RailroadBox {
+  kind: RailroadBoxKind;
+  label: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  start: number;
+  end: number;
+}
+
+export interface RailroadGroup {
+  label: string;
+  isLookaround: boolean;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  start: number;
+  end: number;
+}
+
+export interface RailroadLabel {
+  text: string;
+  x: number;
+  y: number;
+  start: number;
+  end: number;
+}
+
+export interface RailroadDiagram {
+  width: number;
+  height: number;
+  paths: string[];
+  groups: RailroadGroup[];
+  boxes: RailroadBox[];
+  labels: RailroadLabel[];
+}
+
+// Estimated glyph widths of the monospace box and label fonts
+const BOX_CHAR_WIDTH = 7.5;
+const LABEL_CHAR_WIDTH = 6.5;
+
+const BOX_HEIGHT = 24;
+const BOX_PADDING = 8;
+const SEQUENCE_GAP = 12;
+const ROW_GAP = 10;
+const ARC = 8;
+const GROUP_PADDING = 8;
+const LABEL_HEIGHT = 14;
+const MARGIN = 12;
+const ENDPOINT = 20;
+const MAX_LABEL_LENGTH = 30;
+
+const CHARACTER_TYPE_LABELS: Record<CharacterTypeKind, string> = {
+  any: 'any character',
+  digit: 'digit',
+  'not-digit': 'non-digit',
+  word: 'word character',
+  'not-word': 'non-word character',
+  space: 'whitespace',
+  'not-space': 'non-whitespace',
+};
+
+interface LayoutContext {
+  offset: number;
+  multiline: boolean;
+}
+
+// A laid-out part of the diagram; y is where the track enters and leaves it
+interface Layout {
+  width: number;
+  up: number;
+  down: number;
+  draw: (x: number, y: number, diagram: RailroadDiagram) => void;
+}
+
+/**
+ * Lays out a pattern as a railroad diagram: a track from left to right,
+ * branching for alternatives and looping back for repetitions
+ * @param pattern - The regex pattern, bare or as a /literal/flags
+ * @param flags - Flags for a bare pattern; a literal's own flags take precedence
+ * @returns The diagram, with source spans on every box, group and label; null
+ *   when the pattern is empty or cannot be parsed
+ */
+export function buildRailroadDiagram(
+  pattern: string,
+  flags: string = ''
+): RailroadDiagram | null {
+  if (!pattern) {
+    return null;
+  }
+
+  const literal = splitRegexLiteral(pattern);
+  const effectiveFlags = literal.offset ? literal.flags : flags;
+  let body: RegexNode;
+  try {
+    body = parseRegex(literal.source, effectiveFlags).body;
+  } catch {
+    return null;
+  }
+
+  const layout = layoutNode(body, {
+    offset: literal.offset,
+    multiline: effectiveFlags.includes('m'),
+  });
+  const diagram: RailroadDiagram = {
+    width: layout.width + 2 * (MARGIN + ENDPOINT),
+    height: layout.up + layout.down + 2 * MARGIN,
+    paths: [],
+    groups: [],
+    boxes: [],
+    labels: [],
+  };
+
+  const y = MARGIN + layout.up;
+  const end = MARGIN + ENDPOINT + layout.width;
+  diagram.paths.push(`M${MARGIN} ${y - 8}v16M${MARGIN} ${y}h${ENDPOINT}`);
+  layout.draw(MARGIN + ENDPOINT, y, diagram);
+  diagram.paths.push(`M${end} ${y}h${ENDPOINT}m0 -8v16`);
+
+  return diagram;
+}
+
+/**
+ * Lays out an AST node
+ * @param node - The AST node
+ * @param context - Source offset and flags
+ * @returns The layout
+ */
+function layoutNode(node: RegexNode, context: LayoutContext): Layout {
+  switch (node.type) {
+    case 'alternation':
+      return layoutChoice(
+        node.alternatives.map(alternative => layoutNode(alternative, context))
+      );
+
+    case 'sequence': {
+      // Runs of characters read better as one box of text
+      const layouts: Layout[] = [];
+      let run: CharacterNode[] = [];
+      const flush = () => {
+        if (run.length > 0) {
+          layouts.push(
+            layoutBox(
+              'literal',
+              JSON.stringify(run.map(item => item.value).join('')),
+              run[0].start,
+              run[run.length - 1].end,
+              context
+            )
+          );
+          run = [];
+        }
+      };
+      for (const element of node.elements) {
+        if (element.type === 'character') {
+          run.push(element);
+        } else {
+          flush();
+          layouts.push(layoutNode(element, context));
+        }
+      }
+      flush();
+      return layoutSequence(layouts);
+    }
+
+    case 'group':
+      return layoutGroup(node, context);
+
+    case 'quantifier':
+      return layoutQuantifier(node, context);
+
+    case 'character':
+      return layoutBox(
+        'literal',
+        JSON.stringify(node.value),
+        node.start,
+        node.end,
+        context
+      );
+
+    case 'character-class':
+      return layoutBox('class', node.raw, node.start, node.end, context);
+
+    case 'character-type':
+      return layoutBox(
+        'special',
+        CHARACTER_TYPE_LABELS[node.kind],
+        node.start,
+        node.end,
+        context
+      );
+
+    case 'unicode-property':
+      return layoutBox('special', node.raw, node.start, node.end, context);
+
+    case 'assertion': {
+      const labels = {
+        start: context.multiline ? 'start of line' : 'start of string',
+        end: context.multiline ? 'end of line' : 'end of string',
+        'word-boundary': 'word boundary',
+        'not-word-boundary': 'not a word boundary',
+      };
+      return layoutBox(
+        'assertion',
+        labels[node.kind],
+        node.start,
+        node.end,
+        context
+      );
+    }
+
+    case 'backreference':
+      return layoutBox(
+        'reference',
+        typeof node.ref === 'number'
+          ? `back-reference #${node.ref}`
+          : `back-reference <${node.ref}>`,
+        node.start,
+        node.end,
+        context
+      );
+  }
+}
+
+/**
+ * Lays out a box on the track
+ * @param kind - What the box matches
+ * @param label - The box text; long text is shortened
+ * @param start - Where the box's source starts
+ * @param end - Where the box's source ends
+ * @param context - Source offset and flags
+ * @returns The layout
+ */
+function layoutBox(
+  kind: RailroadBoxKind,
+  label: string,
+  start: number,
+  end: number,
+  context: LayoutContext
+): Layout {
+  const characters = [...label];
+  const text =
+    characters.length > MAX_LABEL_LENGTH
+      ? `${characters.slice(0, MAX_LABEL_LENGTH - 1).join('')}…`
+      : label;
+  const width = Math.max(
+    BOX_HEIGHT,
+    [...text].length * BOX_CHAR_WIDTH + 2 * BOX_PADDING
+  );
+
+  return {
+    width,
+    up: BOX_HEIGHT / 2,
+    down: BOX_HEIGHT / 2,
+    draw: (x, y, diagram) => {
+      diagram.boxes.push({
+        kind,
+        label: text,
+        x,
+        y: y - BOX_HEIGHT / 2,
+        width,
+        height: BOX_HEIGHT,
+        start: start + context.offset,
+        end: end + context.offset,
+      });
+    },
+  };
+}
+
+/**
+ * Lays out items one after another, joined by track
+ * @param layouts - The items
+ * @returns The layout; a plain stretch of track when there are no items
+ */
+function layoutSequence(layouts: Layout[]): Layout {
+  if (layouts.length === 0) {
+    return {
+      width: 2 * SEQUENCE_GAP,
+      up: 0,
+      down: 0,
+      draw: (x, y, diagram) => {
+        diagram.paths.push(`M${x} ${y}h${2 * SEQUENCE_GAP}`);
+      },
+    };
+  }
+  if (layouts.length === 1) {
+    return layouts[0];
+  }
+
+  return {
+    width:
+      layouts.reduce((sum, layout) => sum + layout.width, 0) +
+      SEQUENCE_GAP * (layouts.length - 1),
+    up: Math.max(...layouts.map(layout => layout.up)),
+    down: Math.max(...layouts.map(layout => layout.down)),
+    draw: (x, y, diagram) => {
+      let cursor = x;
+      layouts.forEach((layout, index) => {
+        if (index > 0) {
+          diagram.paths.push(`M${cursor} ${y}h${SEQUENCE_GAP}`);
+          cursor += SEQUENCE_GAP;
+        }
+        layout.draw(cursor, y, diagram);
+        cursor += layout.width;
+      });
+    },
+  };
+}
+
+/**
+ * Lays out alternatives stacked below each other, the first on the main track
+ * @param layouts - The alternatives
+ * @returns The layout
+ */
+function layoutChoice(layouts: Layout[]): Layout {
+  // How far below the main track each alternative runs
+  const offsets: number[] = [0];
+  for (let i = 1; i < layouts.length; i++) {
+    offsets.push(
+      Math.max(
+        offsets[i - 1] + layouts[i - 1].down + ROW_GAP + layouts[i].up,
+        offsets[i - 1] + 2 * ARC
+      )
+    );
+  }
+  const innerWidth = Math.max(...layouts.map(layout => layout.width));
+  const width = innerWidth + 4 * ARC;
+  const last = layouts.length - 1;
+
+  return {
+    width,
+    up: layouts[0].up,
+    down: offsets[last] + layouts[last].down,
+    draw: (x, y, diagram) => {
+      layouts.forEach((layout, index) => {
+        const rowY = y + offsets[index];
+        const exit = x + 2 * ARC + layout.width;
+        if (index === 0) {
+          diagram.paths.push(`M${x} ${y}h${2 * ARC}M${exit} ${y}H${x + width}`);
+        } else {
+          diagram.paths.push(
+            `M${x} ${y}a${ARC} ${ARC} 0 0 1 ${ARC} ${ARC}V${rowY - ARC}a${ARC} ${ARC} 0 0 0 ${ARC} ${ARC}`,
+            `M${exit} ${rowY}H${x + width - 2 * ARC}a${ARC} ${ARC} 0 0 0 ${ARC} ${-ARC}V${y + ARC}a${ARC} ${ARC} 0 0 1 ${ARC} ${-ARC}`
+          );
+        }
+        layout.draw(x + 2 * ARC, rowY, diagram);
+      });
+    },
+  };
+}
+
+/**
+ * Lays out an item with a track that bypasses it above
+ * @param layout - The optional item
+ * @returns The layout
+ */
+function layoutSkip(layout: Layout): Layout {
+  const rise = Math.max(layout.up + ROW_GAP, 2 * ARC);
+  const width = layout.width + 4 * ARC;
+
+  return {
+    width,
+    up: rise,
+    down: layout.down,
+    draw: (x, y, diagram) => {
+      const skipY = y - rise;
+      diagram.paths.push(
+        `M${x} ${y}h${2 * ARC}M${x + 2 * ARC + layout.width} ${y}H${x + width}`,
+        `M${x} ${y}a${ARC} ${ARC} 0 0 0 ${ARC} ${-ARC}V${skipY + ARC}a${ARC} ${ARC} 0 0 1 ${ARC} ${-ARC}H${x + width - 2 * ARC}a${ARC} ${ARC} 0 0 1 ${ARC} ${ARC}V${y - ARC}a${ARC} ${ARC} 0 0 0 ${ARC} ${ARC}`
+      );
+      layout.draw(x + 2 * ARC, y, diagram);
+    },
+  };
+}
+
+/**
+ * Lays out an item with a track below it that loops back to repeat it
+ * @param layout - The repeated item
+ * @param label - Text under the loop, with its source span
+ * @returns The layout
+ */
+function layoutLoop(
+  layout: Layout,
+  label: Omit<RailroadLabel, 'x' | 'y'>
+): Layout {
+  const drop = Math.max(layout.down + ROW_GAP, 2 * ARC);
+  const width = Math.max(
+    layout.width + 4 * ARC,
+    label.text.length * LABEL_CHAR_WIDTH + 2 * ARC
+  );
+
+  return {
+    width,
+    up: layout.up,
+    down: drop + LABEL_HEIGHT,
+    draw: (x, y, diagram) => {
+      const loopY = y + drop;
+      const itemX = x + (width - layout.width) / 2;
+      diagram.paths.push(
+        `M${x} ${y}H${itemX}M${itemX + layout.width} ${y}H${x + width}`,
+        `M${x + width - 2 * ARC} ${y}a${ARC} ${ARC} 0 0 1 ${ARC} ${ARC}V${loopY - ARC}a${ARC} ${ARC} 0 0 1 ${-ARC} ${ARC}H${x + 2 * ARC}a${ARC} ${ARC} 0 0 1 ${-ARC} ${-ARC}V${y + ARC}a${ARC} ${ARC} 0 0 1 ${ARC} ${-ARC}`
+      );
+      diagram.labels.push({
+        ...label,
+        x: x + width / 2,
+        y: loopY + LABEL_HEIGHT - 2,
+      });
+      layout.draw(itemX, y, diagram);
+    },
+  };
+}
+
+/**
+ * Lays out a quantified item as a bypass, a loop or both
+ * @param node - The quantifier node
+ * @param context - Source offset and flags
+ * @returns The layout
+ */
+function layoutQuantifier(
+  node: QuantifierNode,
+  context: LayoutContext
+): Layout {
+  const item = layoutNode(node.target, context);
+  const { min, max } = node;
+  if (max <= 1) {
+    return min === 1 ? item : layoutSkip(item);
+  }
+
+  let times: string;
+  if (max === Infinity) {
+    times = `${min}+ times`;
+  } else if (min === max) {
+    times = `${min} times`;
+  } else {
+    times = `${min}–${max} times`;
+  }
+  const end = node.end + context.offset;
+  const loop = layoutLoop(item, {
+    text: node.greedy ? times : `${times}, lazy`,
+    start: end - node.symbol.length,
+    end,
+  });
+  return min === 0 ? layoutSkip(loop) : loop;
+}
+
+/**
+ * Lays out a group as a labelled frame; non-capturing groups are not framed
+ * @param node - The group node
+ * @param context - Source offset and flags
+ * @returns The layout
+ */
+function layoutGroup(node: GroupNode, context: LayoutContext): Layout {
+  const inner = layoutNode(node.body, context);
+  if (node.kind === 'non-capturing') {
+    return inner;
+  }
+
+  let label: string;
+  if (node.kind === 'capturing') {
+    label = `group #${node.index}`;
+  } else if (node.kind === 'named') {
+    label = `group #${node.index} <${node.name}>`;
+  } else {
+    label = node.kind.replace('-', ' ');
+  }
+  const width = Math.max(
+    inner.width + 2 * GROUP_PADDING,
+    label.length * LABEL_CHAR_WIDTH + 2 * GROUP_PADDING
+  );
+  const up = inner.up + GROUP_PADDING + LABEL_HEIGHT;
+  const down = inner.down + GROUP_PADDING;
+
+  return {
+    width,
+    up,
+    down,
+    draw: (x, y, diagram) => {
+      const innerX = x + (width - inner.width) / 2;
+      diagram.groups.push({
+        label,
+        isLookaround: node.kind.includes('look'),
+        x,
+        y: y - up,
+        width,
+        height: up + down,
+        start: node.start + context.offset,
+        end: node.end + context.offset,
+      });
+      diagram.paths.push(
+        `M${x} ${y}H${innerX}M${innerX + inner.width} ${y}H${x + width}`
+      );
+      inner.draw(innerX, y, diagram);
+    },
+  };
+}
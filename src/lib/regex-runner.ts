@@ -0,0 +1,109 @@
+/**
+ * Runs user regexes in a Web Worker so catastrophic backtracking cannot freeze the page
+ */
+
+import { replaceWithPattern, testRegexPattern } from './regex-utils';
+
+export interface RegexRunRequest {
+  pattern: string;
+  testString: string;
+  flags: string;
+  replacement?: string;
+}
+
+export interface RegexRunResult {
+  testResult: ReturnType<typeof testRegexPattern>;
+  replaceResult: ReturnType<typeof replaceWithPattern> | null;
+  timedOut?: boolean;
+}
+
+// Matching that takes longer than this is stopped
+export const REGEX_RUN_TIMEOUT_MS = 2000;
+
+/**
+ * Matches, and optionally replaces, in the current thread
+ * @param request - The pattern, test string, flags and optional replacement
+ * @returns The match and replace results
+ */
+export function runRegexRequest(request: RegexRunRequest): RegexRunResult {
+  const { pattern, testString, flags, replacement } = request;
+  return {
+    testResult: testRegexPattern(pattern, testString, flags),
+    replaceResult:
+      replacement !== undefined
+        ? replaceWithPattern(pattern, testString, replacement, flags)
+        : null,
+  };
+}
+
+/**
+ * Builds the result of a run that was stopped before it finished
+ * @param error - Why the run stopped
+ * @param timedOut - Whether it stopped because of the timeout
+ * @returns A result without matches
+ */
+function stoppedResult(error: string, timedOut: boolean): RegexRunResult {
+  return {
+    testResult: { isValid: false, matches: [], error },
+    replaceResult: null,
+    ...(timedOut && { timedOut }),
+  };
+}
+
+/**
+ * Runs a request in a Web Worker, terminating it after a timeout
+ * @param request - The pattern, test string, flags and optional replacement
+ * @param timeoutMs - How long matching may take
+ * @returns The eventual result, and a function that stops the run
+ */
+export function startRegexRun(
+  request: RegexRunRequest,
+  timeoutMs: number = REGEX_RUN_TIMEOUT_MS
+): { result: Promise<RegexRunResult>; cancel: () => void } {
+  // Environments without workers, such as tests, match inline
+  if (typeof Worker === 'undefined') {
+    return {
+      result: Promise.resolve(runRegexRequest(request)),
+      cancel: () => {},
+    };
+  }
+
+  const worker = new Worker(
+    new URL('./regex-runner.worker.ts', import.meta.url),
+    { type: 'module' }
+  );
+  let settle: (result: RegexRunResult) => void = () => {};
+
+  const result = new Promise<RegexRunResult>(resolve => {
+    const timeout = setTimeout(
+      () =>
+        settle(
+          stoppedResult(
+            `Matching was stopped after ${timeoutMs / 1000} seconds. The pattern is probably backtracking catastrophically on this input.`,
+            true
+          )
+        ),
+      timeoutMs
+    );
+
+    settle = result => {
+      clearTimeout(timeout);
+      worker.terminate();
+      resolve(result);
+    };
+
+    worker.addEventListener('message', (event: MessageEvent<RegexRunResult>) =>
+      settle(event.data)
+    );
+    worker.addEventListener('error', event => {
+      settle(stoppedResult(event.message || 'The regex worker failed', false));
+    });
+  });
+
+  worker.postMessage(request);
+
+  return {
+    result,
+    cancel: () => settle(stoppedResult('Matching cancelled', false)),
+  };
+}
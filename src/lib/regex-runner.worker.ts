@@ -0,0 +1,9 @@
+/**
+ * Web Worker that matches regexes off the main thread
+ */
+
+import { runRegexRequest, type RegexRunRequest } from './regex-runner';
+
+self.addEventListener('message', (event: MessageEvent<RegexRunRequest>) => {
+  self.postMessage(runRegexRequest(event.data));
+});
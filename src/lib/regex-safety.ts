@@ -0,0 +1,293 @@
+/**
+ * Static detection of regex constructs prone to catastrophic backtracking (ReDoS)
+ */
+
+import {
+  parseRegex,
+  walkRegexAst,
+  type QuantifierNode,
+  type RegexNode,
+} from './regex-parser';
+import type { SecurityFinding } from './security-findings';
+
+// Characters used to compare what two sub-patterns can match
+const PROBE_CHARACTERS = [
+  ...Array.from({ length: 128 }, (_, code) => String.fromCharCode(code)),
+  'é',
+  'ß',
+  'Ж',
+  'λ',
+  '中',
+  '\u00a0',
+  '\u2028',
+  '😀',
+];
+
+/**
+ * Looks for nested quantifiers, overlapping alternatives and adjacent
+ * overlapping quantifiers, which can make matching take exponential or
+ * polynomial time on input that almost matches
+ * @param pattern - The regex pattern
+ * @param flags - The regex flags
+ * @returns Findings for each risky sub-pattern; empty when the pattern cannot be parsed
+ */
+export function analyzeRegexSafety(
+  pattern: string,
+  flags: string = ''
+): SecurityFinding[] {
+  let body: RegexNode;
+  try {
+    body = parseRegex(pattern, flags).body;
+  } catch {
+    return [];
+  }
+
+  const probeFlags = flags.replace(/[dgy]/g, '');
+  const findings: SecurityFinding[] = [];
+  const flagged = new Set<RegexNode>();
+
+  for (const node of walkRegexAst(body)) {
+    if (node.type === 'quantifier' && node.max > 1) {
+      const inner = getSoleRepeaters(node.target).find(
+        repeater => !flagged.has(repeater)
+      );
+      if (inner) {
+        flagged.add(inner);
+        findings.push({
+          id: 'redos-nested-quantifier',
+          severity: 'critical',
+          title: 'Nested quantifier',
+          explanation: `${inner.raw} repeats inside ${node.raw}, so a run of matching characters can be split between the inner and outer repetition in exponentially many ways. When the rest of the pattern fails, every split is tried. Make the inner part unambiguous, for example by requiring a separator between repetitions.`,
+          location: describeLocation(node),
+        });
+        continue;
+      }
+
+      const overlap = findOverlappingAlternatives(node.target, probeFlags);
+      if (overlap) {
+        findings.push({
+          id: 'redos-overlapping-alternation',
+          severity: 'high',
+          title: 'Overlapping alternatives in a repetition',
+          explanation: `Alternatives ${overlap[0].raw || '(empty)'} and ${overlap[1].raw || '(empty)'} can both match ${formatProbe(overlap[2])}, and ${node.raw} repeats them, so the same text can be matched in exponentially many ways. Make the alternatives mutually exclusive.`,
+          location: describeLocation(node),
+        });
+      }
+    }
+
+    if (node.type === 'sequence') {
+      const adjacent = findAdjacentOverlap(node.elements, probeFlags);
+      if (adjacent) {
+        findings.push({
+          id: 'redos-adjacent-quantifiers',
+          severity: 'medium',
+          title: 'Adjacent overlapping quantifiers',
+          explanation: `${adjacent[0].raw} and ${adjacent[1].raw} can both match ${formatProbe(adjacent[2])}, so a run of such characters can be divided between them in many ways. On long input that fails to match, this takes polynomial time.`,
+          location: `Sub-pattern: ${adjacent[0].raw}…${adjacent[1].raw} at position ${adjacent[0].start}`,
+        });
+      }
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Describes where a sub-pattern is
+ * @param node - The AST node
+ * @returns A location for a finding
+ */
+function describeLocation(node: RegexNode): string {
+  return `Sub-pattern: ${node.raw} at position ${node.start}`;
+}
+
+/**
+ * Formats a probe character for an explanation
+ * @param character - The character
+ * @returns The quoted character
+ */
+function formatProbe(character: string): string {
+  return JSON.stringify(character);
+}
+
+/**
+ * Finds variable-length repetitions that can make up a whole match of a node,
+ * with everything around them matching the empty string
+ * @param node - The AST node
+ * @returns The repetitions
+ */
+function getSoleRepeaters(node: RegexNode): QuantifierNode[] {
+  switch (node.type) {
+    case 'quantifier':
+      return node.max > 1 && node.min !== node.max
+        ? [node]
+        : getSoleRepeaters(node.target);
+    case 'group':
+      return node.kind.includes('look') ? [] : getSoleRepeaters(node.body);
+    case 'alternation':
+      return node.alternatives.flatMap(getSoleRepeaters);
+    case 'sequence':
+      return node.elements.flatMap((element, index) =>
+        node.elements.every(
+          (other, otherIndex) => otherIndex === index || isNullable(other)
+        )
+          ? getSoleRepeaters(element)
+          : []
+      );
+    default:
+      return [];
+  }
+}
+
+/**
+ * Finds two alternatives of a repeated node that can start with the same character
+ * @param node - The repeated node
+ * @param flags - Flags for probing characters
+ * @returns The overlapping alternatives and a shared character, or null
+ */
+function findOverlappingAlternatives(
+  node: RegexNode,
+  flags: string
+): [RegexNode, RegexNode, string] | null {
+  if (node.type === 'group' && !node.kind.includes('look')) {
+    return findOverlappingAlternatives(node.body, flags);
+  }
+  if (node.type !== 'alternation') {
+    return null;
+  }
+
+  const firstCharacters = node.alternatives.map(alternative =>
+    getFirstCharacters(alternative, flags)
+  );
+  for (let i = 0; i < firstCharacters.length; i++) {
+    for (let j = i + 1; j < firstCharacters.length; j++) {
+      const shared = [...firstCharacters[i]].find(character =>
+        firstCharacters[j].has(character)
+      );
+      if (shared !== undefined) {
+        return [node.alternatives[i], node.alternatives[j], shared];
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Finds two unbounded repetitions of single characters in a sequence, with
+ * only optional elements between them, that can match the same character
+ * @param elements - The sequence elements
+ * @param flags - Flags for probing characters
+ * @returns The two repetitions and a shared character, or null
+ */
+function findAdjacentOverlap(
+  elements: RegexNode[],
+  flags: string
+): [QuantifierNode, QuantifierNode, string] | null {
+  for (let i = 0; i < elements.length; i++) {
+    const first = elements[i];
+    if (!isCharacterRepetition(first)) continue;
+
+    for (let j = i + 1; j < elements.length; j++) {
+      const second = elements[j];
+      if (isCharacterRepetition(second)) {
+        const firstCharacters = getFirstCharacters(first.target, flags);
+        const shared = [...getFirstCharacters(second.target, flags)].find(
+          character => firstCharacters.has(character)
+        );
+        if (shared !== undefined) return [first, second, shared];
+      }
+      if (!isNullable(second)) break;
+    }
+  }
+  return null;
+}
+
+/**
+ * Checks whether a node is an unbounded repetition of a single character
+ * @param node - The AST node
+ * @returns Whether the node repeats a character, class or character type
+ */
+function isCharacterRepetition(node: RegexNode): node is QuantifierNode {
+  return (
+    node.type === 'quantifier' &&
+    node.max === Infinity &&
+    [
+      'character',
+      'character-class',
+      'character-type',
+      'unicode-property',
+    ].includes(node.target.type)
+  );
+}
+
+/**
+ * Checks whether a node can match the empty string
+ * @param node - The AST node
+ * @returns Whether the node is nullable
+ */
+function isNullable(node: RegexNode): boolean {
+  switch (node.type) {
+    case 'sequence':
+      return node.elements.every(isNullable);
+    case 'alternation':
+      return node.alternatives.some(isNullable);
+    case 'group':
+      return node.kind.includes('look') || isNullable(node.body);
+    case 'quantifier':
+      return node.min === 0 || isNullable(node.target);
+    case 'assertion':
+    case 'backreference':
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Collects the probe characters a node can start a match with
+ * @param node - The AST node
+ * @param flags - Flags for probing characters
+ * @returns The matching probe characters
+ */
+function getFirstCharacters(node: RegexNode, flags: string): Set<string> {
+  switch (node.type) {
+    case 'sequence': {
+      const characters = new Set<string>();
+      for (const element of node.elements) {
+        getFirstCharacters(element, flags).forEach(c => characters.add(c));
+        if (!isNullable(element)) break;
+      }
+      return characters;
+    }
+    case 'alternation':
+      return new Set(
+        node.alternatives.flatMap(alternative => [
+          ...getFirstCharacters(alternative, flags),
+        ])
+      );
+    case 'group':
+      return node.kind.includes('look')
+        ? new Set()
+        : getFirstCharacters(node.body, flags);
+    case 'quantifier':
+      return node.max === 0
+        ? new Set()
+        : getFirstCharacters(node.target, flags);
+    case 'character':
+    case 'character-class':
+    case 'character-type':
+    case 'unicode-property': {
+      // Single-character atoms are valid patterns on their own, except
+      // Annex B oddities such as a lone \c, which stands for a backslash
+      let atom: RegExp;
+      try {
+        atom = new RegExp(`^(?:${node.raw})$`, flags);
+      } catch {
+        return new Set(node.type === 'character' ? [node.value] : []);
+      }
+      return new Set(PROBE_CHARACTERS.filter(c => atom.test(c)));
+    }
+    default:
+      return new Set();
+  }
+}
@@ -1,3 +1,13 @@
+import {
+  parseRegex,
+  walkRegexAst,
+  type CharacterNode,
+  type CharacterTypeKind,
+  type GroupKind,
+  type QuantifierNode,
+  type RegexNode,
+} from './regex-parser';
+
 /**
  * Validates a regular expression pattern
  * @param pattern - The regex pattern to validate
@@ -50,156 +60,575 @@ export function testRegexPattern(
   }
 
   try {
-    const regex = new RegExp(pattern, flags);
-    const matches: RegExpMatchArray[] = [];
+    // The d flag records where each capture group matched
+    const regex = new RegExp(
+      pattern,
+      flags.includes('d') ? flags : `${flags}d`
+    );
+    return { isValid: true, matches: findAllMatches(regex, testString) };
+  } catch (error) {
+    return {
+      isValid: false,
+      matches: [],
+      error:
+        error instanceof Error ? error.message : 'Invalid regular expression',
+    };
+  }
+}
 
-    // Find all matches
-    let match: RegExpExecArray | null;
-    while ((match = regex.exec(testString)) !== null) {
-      matches.push({ ...match });
+export interface RegexReplacement {
+  matchIndex: number;
+  start: number;
+  end: number;
+  match: string;
+  groups: Array<string | undefined>;
+  replacement: string;
+  outputStart: number;
+  outputEnd: number;
+}
 
-      // Prevent infinite loops for patterns like /a*/g
-      if (match.index === regex.lastIndex) {
-        regex.lastIndex++;
-      }
+export interface ReplaceSegment {
+  text: string;
+  isReplacement: boolean;
+  replacementIndex?: number;
+}
 
-      // If the regex is not global, break after first match
-      if (!regex.global) break;
-    }
+/**
+ * Replaces matches of a pattern the way String.prototype.replace does,
+ * keeping track of each individual replacement
+ * @param pattern - The regex pattern
+ * @param testString - The string to replace matches in
+ * @param replacement - The replacement string; supports $1, $<name>, $&, $`, $' and $$
+ * @param flags - Optional regex flags; without g only the first match is replaced
+ * @returns The replaced text, each replacement and output segments for highlighting
+ */
+export function replaceWithPattern(
+  pattern: string,
+  testString: string,
+  replacement: string,
+  flags: string = ''
+): {
+  isValid: boolean;
+  output: string;
+  replacements: RegexReplacement[];
+  segments: ReplaceSegment[];
+  error?: string;
+} {
+  if (!pattern) {
+    return {
+      isValid: false,
+      output: testString,
+      replacements: [],
+      segments: [],
+      error: 'Pattern is empty',
+    };
+  }
 
-    return { isValid: true, matches };
+  let matches: RegExpExecArray[];
+  try {
+    matches = findAllMatches(new RegExp(pattern, flags), testString);
   } catch (error) {
     return {
       isValid: false,
-      matches: [],
+      output: testString,
+      replacements: [],
+      segments: [],
       error:
         error instanceof Error ? error.message : 'Invalid regular expression',
     };
   }
+
+  const replacements: RegexReplacement[] = [];
+  const segments: ReplaceSegment[] = [];
+  let output = '';
+  let lastIndex = 0;
+
+  matches.forEach((match, matchIndex) => {
+    const start = match.index;
+    const end = start + match[0].length;
+
+    if (start > lastIndex) {
+      const text = testString.substring(lastIndex, start);
+      segments.push({ text, isReplacement: false });
+      output += text;
+    }
+
+    const text = expandReplacement(replacement, match, testString);
+    replacements.push({
+      matchIndex,
+      start,
+      end,
+      match: match[0],
+      groups: match.slice(1),
+      replacement: text,
+      outputStart: output.length,
+      outputEnd: output.length + text.length,
+    });
+    segments.push({ text, isReplacement: true, replacementIndex: matchIndex });
+    output += text;
+
+    lastIndex = end;
+  });
+
+  if (lastIndex < testString.length) {
+    const text = testString.substring(lastIndex);
+    segments.push({ text, isReplacement: false });
+    output += text;
+  }
+
+  return { isValid: true, output, replacements, segments };
 }
 
 /**
- * Explains a regular expression pattern by breaking it down into components
- * @param pattern - The regex pattern to explain
- * @returns An array of explanation objects for each component
+ * Expands a replacement string for one match, following GetSubstitution in the ECMAScript spec
+ * @param template - The replacement string
+ * @param match - The match being replaced
+ * @param input - The whole string being searched
+ * @returns The replacement text
+ */
+function expandReplacement(
+  template: string,
+  match: RegExpExecArray,
+  input: string
+): string {
+  const groupCount = match.length - 1;
+  let result = '';
+  let i = 0;
+
+  while (i < template.length) {
+    const next = template[i + 1];
+    if (template[i] !== '$' || next === undefined) {
+      result += template[i++];
+    } else if (next === '$') {
+      result += '$';
+      i += 2;
+    } else if (next === '&') {
+      result += match[0];
+      i += 2;
+    } else if (next === '`') {
+      result += input.slice(0, match.index);
+      i += 2;
+    } else if (next === "'") {
+      result += input.slice(match.index + match[0].length);
+      i += 2;
+    } else if (/\d/.test(next)) {
+      // Prefer a two-digit group number when that group exists
+      let digits = /^\d{1,2}/.exec(template.slice(i + 1))![0];
+      if (digits.length === 2) {
+        const index = parseInt(digits, 10);
+        if (index === 0 || index > groupCount) digits = digits[0];
+      }
+      const index = parseInt(digits, 10);
+      result +=
+        index >= 1 && index <= groupCount ? (match[index] ?? '') : `$${digits}`;
+      i += 1 + digits.length;
+    } else if (next === '<') {
+      const close = template.indexOf('>', i + 2);
+      if (!match.groups || close === -1) {
+        result += '$<';
+        i += 2;
+      } else {
+        result += match.groups[template.slice(i + 2, close)] ?? '';
+        i = close + 1;
+      }
+    } else {
+      result += '$';
+      i++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Runs a regex over a string, collecting every match for global and sticky
+ * patterns and only the first match otherwise
+ * @param regex - The regex to run
+ * @param input - The string to search
+ * @returns The matches in order
  */
-export function explainRegexPattern(pattern: string): Array<{
+function findAllMatches(regex: RegExp, input: string): RegExpExecArray[] {
+  const matches: RegExpExecArray[] = [];
+
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(input)) !== null) {
+    matches.push(match);
+
+    // Prevent infinite loops for patterns like /a*/g, stepping over whole
+    // code points in Unicode mode
+    if (match.index === regex.lastIndex) {
+      const codePoint = input.codePointAt(regex.lastIndex) ?? 0;
+      regex.lastIndex += /[uv]/.test(regex.flags) && codePoint > 0xffff ? 2 : 1;
+    }
+
+    // If the regex is not global, break after first match
+    if (!regex.global) break;
+  }
+
+  return matches;
+}
+
+export interface RegexExplanationNode {
   component: string;
   explanation: string;
-}> {
+  start: number;
+  end: number;
+  children: RegexExplanationNode[];
+}
+
+interface ExplainContext {
+  flags: string;
+  offset: number;
+}
+
+const CHARACTER_TYPE_EXPLANATIONS: Record<CharacterTypeKind, string> = {
+  any: 'Matches any character except line breaks',
+  digit: 'Matches any digit (0-9)',
+  'not-digit': 'Matches any character that is not a digit',
+  word: 'Matches any word character (alphanumeric + underscore)',
+  'not-word': 'Matches any character that is not a word character',
+  space: 'Matches any whitespace character (spaces, tabs, line breaks)',
+  'not-space': 'Matches any character that is not whitespace',
+};
+
+const GROUP_EXPLANATIONS: Record<GroupKind, string> = {
+  capturing: 'Capturing group',
+  named: 'Named capturing group',
+  'non-capturing': 'Non-capturing group',
+  lookahead: 'Positive lookahead: what follows must match',
+  'negative-lookahead': 'Negative lookahead: what follows must not match',
+  lookbehind: 'Positive lookbehind: what precedes must match',
+  'negative-lookbehind': 'Negative lookbehind: what precedes must not match',
+};
+
+const NAMED_CHARACTERS: Record<string, string> = {
+  '\n': 'a line break',
+  '\r': 'a carriage return',
+  '\t': 'a tab character',
+  '\f': 'a form feed',
+  '\v': 'a vertical tab',
+  '\0': 'a NUL character',
+  '\b': 'a backspace',
+  ' ': 'a space',
+};
+
+/**
+ * Splits a regex literal such as /abc/gi into its source and flags
+ * @param pattern - A bare pattern or a regex literal
+ * @returns The pattern source, its flags and where the source starts
+ */
+export function splitRegexLiteral(pattern: string): {
+  source: string;
+  flags: string;
+  offset: number;
+} {
+  const flagsMatch = pattern.match(/\/([dgimsuvy]*)$/);
+  if (pattern.startsWith('/') && flagsMatch && pattern.length > 1) {
+    return {
+      source: pattern.slice(1, pattern.lastIndexOf('/')),
+      flags: flagsMatch[1],
+      offset: 1,
+    };
+  }
+  return { source: pattern, flags: '', offset: 0 };
+}
+
+/**
+ * Explains a regular expression as a tree that mirrors its structure
+ * @param pattern - The regex pattern, bare or as a /literal/flags
+ * @param flags - Flags for a bare pattern; a literal's own flags take precedence
+ * @returns The explanation tree, or an empty array when the pattern cannot be parsed
+ */
+export function explainRegexTree(
+  pattern: string,
+  flags: string = ''
+): RegexExplanationNode[] {
   if (!pattern) {
     return [];
   }
 
-  const explanations: Array<{ component: string; explanation: string }> = [];
+  const literal = splitRegexLiteral(pattern);
+  const context: ExplainContext = {
+    flags: literal.offset ? literal.flags : flags,
+    offset: literal.offset,
+  };
 
-  // Remove leading and trailing slashes and flags if present
-  let cleanPattern = pattern;
-  const flagsMatch = pattern.match(/\/([gimsuyd]*)$/);
-  let flags = '';
-
-  if (pattern.startsWith('/') && flagsMatch) {
-    flags = flagsMatch[1];
-    cleanPattern = pattern.slice(1, pattern.lastIndexOf('/'));
+  let body: RegexNode;
+  try {
+    body = parseRegex(literal.source, context.flags).body;
+  } catch {
+    return [];
   }
 
-  // Add explanation for flags if present
-  if (flags) {
-    explanations.push({
-      component: `/${flags}`,
-      explanation: explainFlags(flags),
+  const tree: RegexExplanationNode[] = [];
+  if (context.flags) {
+    // Flags passed separately are not part of the pattern text
+    tree.push({
+      component: `/${context.flags}`,
+      explanation: explainFlags(context.flags),
+      start: literal.offset ? pattern.lastIndexOf('/') : pattern.length,
+      end: pattern.length,
+      children: [],
     });
   }
 
-  // Basic regex components to explain
-  const components = [
-    { regex: /\\d/g, explanation: 'Matches any digit (0-9)' },
-    {
-      regex: /\\w/g,
-      explanation: 'Matches any word character (alphanumeric + underscore)',
-    },
-    {
-      regex: /\\s/g,
-      explanation:
-        'Matches any whitespace character (spaces, tabs, line breaks)',
-    },
-    { regex: /\\b/g, explanation: 'Matches a word boundary' },
-    { regex: /\\B/g, explanation: 'Matches a non-word boundary' },
-    { regex: /\\n/g, explanation: 'Matches a line break' },
-    { regex: /\\t/g, explanation: 'Matches a tab character' },
-    { regex: /\\r/g, explanation: 'Matches a carriage return' },
-    { regex: /\\f/g, explanation: 'Matches a form feed' },
-    { regex: /\\v/g, explanation: 'Matches a vertical tab' },
-    { regex: /\\0/g, explanation: 'Matches a NUL character' },
-    { regex: /\\\\/g, explanation: 'Matches a literal backslash' },
-    { regex: /\\./g, explanation: 'Matches a literal period' },
-    { regex: /\\\*/g, explanation: 'Matches a literal asterisk' },
-    { regex: /\\\+/g, explanation: 'Matches a literal plus sign' },
-    { regex: /\\\?/g, explanation: 'Matches a literal question mark' },
-    { regex: /\\\(/g, explanation: 'Matches a literal opening parenthesis' },
-    { regex: /\\\)/g, explanation: 'Matches a literal closing parenthesis' },
-    { regex: /\\\[/g, explanation: 'Matches a literal opening square bracket' },
-    { regex: /\\\]/g, explanation: 'Matches a literal closing square bracket' },
-    { regex: /\\\{/g, explanation: 'Matches a literal opening curly brace' },
-    { regex: /\\\}/g, explanation: 'Matches a literal closing curly brace' },
-    { regex: /\\\^/g, explanation: 'Matches a literal caret' },
-    { regex: /\\\$/g, explanation: 'Matches a literal dollar sign' },
-    { regex: /\\\|/g, explanation: 'Matches a literal pipe' },
-    { regex: /\./g, explanation: 'Matches any character except line breaks' },
-    { regex: /\^/g, explanation: 'Matches the start of a line' },
-    { regex: /\$/g, explanation: 'Matches the end of a line' },
-    {
-      regex: /\*/g,
-      explanation: 'Matches 0 or more of the preceding character',
-    },
-    {
-      regex: /\+/g,
-      explanation: 'Matches 1 or more of the preceding character',
-    },
-    { regex: /\?/g, explanation: 'Matches 0 or 1 of the preceding character' },
-    { regex: /\|/g, explanation: 'Acts as an OR operator between expressions' },
-    {
-      regex: /\{(\d+)\}/g,
-      explanation: 'Matches exactly n occurrences of the preceding character',
-    },
-    {
-      regex: /\{(\d+),\}/g,
-      explanation: 'Matches n or more occurrences of the preceding character',
-    },
+  return [...tree, ...explainNode(body, context)];
+}
+
+/**
+ * Explains a regular expression pattern by breaking it down into components
+ * @param pattern - The regex pattern to explain
+ * @param flags - Optional regex flags for a bare pattern
+ * @returns An array of explanation objects for each component, in tree order
+ */
+export function explainRegexPattern(
+  pattern: string,
+  flags: string = ''
+): Array<{
+  component: string;
+  explanation: string;
+}> {
+  const flatten = (
+    nodes: RegexExplanationNode[]
+  ): Array<{ component: string; explanation: string }> =>
+    nodes.flatMap(node => [
+      { component: node.component, explanation: node.explanation },
+      ...flatten(node.children),
+    ]);
+
+  return flatten(explainRegexTree(pattern, flags));
+}
+
+/**
+ * Explains one AST node; sequences expand into their elements
+ * @param node - The AST node
+ * @param context - The flags in effect and the offset of the pattern source
+ * @returns The explanation nodes
+ */
+function explainNode(
+  node: RegexNode,
+  context: ExplainContext
+): RegexExplanationNode[] {
+  const explain = (
+    explanation: string,
+    children: RegexExplanationNode[] = []
+  ): RegexExplanationNode[] => [
     {
-      regex: /\{(\d+),(\d+)\}/g,
-      explanation:
-        'Matches between n and m occurrences of the preceding character',
+      component: node.raw,
+      explanation,
+      start: node.start + context.offset,
+      end: node.end + context.offset,
+      children,
     },
-    { regex: /\(\?:/g, explanation: 'Non-capturing group' },
-    { regex: /\(\?=/g, explanation: 'Positive lookahead' },
-    { regex: /\(\?!/g, explanation: 'Negative lookahead' },
-    { regex: /\(\?<=/g, explanation: 'Positive lookbehind' },
-    { regex: /\(\?<!/g, explanation: 'Negative lookbehind' },
-    { regex: /\(/g, explanation: 'Capturing group' },
-    { regex: /\)/g, explanation: 'End of group' },
-    { regex: /\[/g, explanation: 'Start of character class' },
-    { regex: /\]/g, explanation: 'End of character class' },
-    { regex: /\[^\]/g, explanation: 'Negated character class' },
-    { regex: /\[a-z\]/g, explanation: 'Character range' },
   ];
 
-  // Find and explain each component
-  for (const { regex, explanation } of components) {
-    const matches = cleanPattern.match(regex);
-    if (matches) {
-      for (const match of matches) {
-        explanations.push({
-          component: match,
-          explanation,
-        });
+  switch (node.type) {
+    case 'sequence':
+      return explainSequence(node.elements, context);
+
+    case 'alternation':
+      return explain(
+        `Matches any one of ${node.alternatives.length} alternatives`,
+        node.alternatives.map((alternative, index) => ({
+          component: alternative.raw || '(empty)',
+          explanation:
+            `Alternative ${index + 1}` +
+            (alternative.elements.length ? '' : ': matches an empty string'),
+          start: alternative.start + context.offset,
+          end: alternative.end + context.offset,
+          children: explainNode(alternative, context),
+        }))
+      );
+
+    case 'group': {
+      let explanation = GROUP_EXPLANATIONS[node.kind];
+      if (node.kind === 'named') {
+        explanation += ` "${node.name}" (#${node.index})`;
+      } else if (node.kind === 'capturing') {
+        explanation += ` #${node.index}`;
       }
+      return explain(explanation, explainNode(node.body, context));
+    }
+
+    case 'quantifier': {
+      const end = node.end + context.offset;
+      return [
+        {
+          component: node.symbol,
+          explanation: describeRepetition(node),
+          start: end - node.symbol.length,
+          end,
+          children: explainNode(node.target, context),
+        },
+      ];
+    }
+
+    case 'character-class':
+      if (node.items.length === 0) {
+        return explain(
+          node.negated
+            ? 'Matches any character, including line breaks'
+            : 'Matches nothing (empty character class)'
+        );
+      }
+      return explain(
+        node.negated
+          ? 'Matches any character except those listed below'
+          : 'Matches any one of the characters listed below',
+        node.items.flatMap(item =>
+          item.type === 'range'
+            ? [
+                {
+                  component: item.raw,
+                  explanation: `Matches a character from ${JSON.stringify(item.from.value)} to ${JSON.stringify(item.to.value)}`,
+                  start: item.start + context.offset,
+                  end: item.end + context.offset,
+                  children: [],
+                },
+              ]
+            : explainNode(item, context)
+        )
+      );
+
+    case 'character-type':
+      return explain(
+        node.kind === 'any' && context.flags.includes('s')
+          ? 'Matches any character, including line breaks'
+          : CHARACTER_TYPE_EXPLANATIONS[node.kind]
+      );
+
+    case 'character':
+      return explain(explainCharacter(node));
+
+    case 'assertion': {
+      const scope = context.flags.includes('m') ? 'a line' : 'the string';
+      return explain(
+        node.kind === 'start'
+          ? `Matches the start of ${scope}`
+          : node.kind === 'end'
+            ? `Matches the end of ${scope}`
+            : node.kind === 'word-boundary'
+              ? 'Matches a word boundary'
+              : 'Matches a non-word boundary'
+      );
+    }
+
+    case 'backreference':
+      return explain(
+        typeof node.ref === 'number'
+          ? `Matches the same text as capturing group #${node.ref}`
+          : `Matches the same text as the group named "${node.ref}"`
+      );
+
+    case 'unicode-property':
+      return explain(
+        `Matches any character ${node.negated ? 'without' : 'with'} the Unicode property ${node.name}${node.value ? `=${node.value}` : ''}`
+      );
+  }
+}
+
+/**
+ * Explains the elements of a sequence, joining runs of plain characters into text
+ * @param elements - The sequence elements
+ * @param context - The flags in effect and the offset of the pattern source
+ * @returns The explanation nodes
+ */
+function explainSequence(
+  elements: RegexNode[],
+  context: ExplainContext
+): RegexExplanationNode[] {
+  const explanations: RegexExplanationNode[] = [];
+
+  for (let i = 0; i < elements.length; i++) {
+    let j = i;
+    while (
+      j < elements.length &&
+      elements[j].type === 'character' &&
+      !elements[j].raw.startsWith('\\')
+    ) {
+      j++;
     }
+
+    if (j - i < 2) {
+      explanations.push(...explainNode(elements[i], context));
+      continue;
+    }
+
+    const run = elements.slice(i, j) as CharacterNode[];
+    explanations.push({
+      component: run.map(character => character.raw).join(''),
+      explanation: `Matches the text "${run.map(character => character.value).join('')}"`,
+      start: run[0].start + context.offset,
+      end: run[run.length - 1].end + context.offset,
+      children: [],
+    });
+    i = j - 1;
   }
 
   return explanations;
 }
 
+/**
+ * Explains a single character, literal or escaped
+ * @param node - The character node
+ * @returns The explanation
+ */
+function explainCharacter(node: CharacterNode): string {
+  if (/^\\[^\dA-Za-z]$/.test(node.raw)) {
+    return `Matches a literal "${node.value}"`;
+  }
+  return `Matches ${describeCharacter(node.value)}`;
+}
+
+/**
+ * Describes a character for display, naming invisible ones
+ * @param value - The character
+ * @returns A readable description
+ */
+function describeCharacter(value: string): string {
+  if (value in NAMED_CHARACTERS) {
+    return NAMED_CHARACTERS[value];
+  }
+
+  const codePoint = value.codePointAt(0)!;
+  const hex = codePoint.toString(16).toUpperCase().padStart(4, '0');
+  if (codePoint < 0x20 || codePoint === 0x7f) {
+    return `the control character U+${hex}`;
+  }
+  return codePoint > 0x7e
+    ? `the character "${value}" (U+${hex})`
+    : `the character "${value}"`;
+}
+
+/**
+ * Describes how often a quantifier repeats its target
+ * @param node - The quantifier node
+ * @returns The explanation
+ */
+function describeRepetition(node: QuantifierNode): string {
+  const { min, max } = node;
+  let times: string;
+
+  if (min === 0 && max === Infinity) {
+    times = 'zero or more times';
+  } else if (min === 1 && max === Infinity) {
+    times = 'one or more times';
+  } else if (min === 0 && max === 1) {
+    times = 'zero or one time (optional)';
+  } else if (min === max) {
+    times = `exactly ${min} time${min === 1 ? '' : 's'}`;
+  } else if (max === Infinity) {
+    times = `${min} or more times`;
+  } else {
+    times = `between ${min} and ${max} times`;
+  }
+
+  if (min === max) {
+    return `Repeats the item below ${times}`;
+  }
+  return `Repeats the item below ${times}, ${node.greedy ? 'as many times as possible' : 'as few times as possible (lazy)'}`;
+}
+
 /**
  * Explains regex flags
  * @param flags - The regex flags to explain
@@ -217,6 +646,8 @@ function explainFlags(flags: string): string {
     );
   if (flags.includes('s')) explanations.push('s: Dot (.) matches newlines');
   if (flags.includes('u')) explanations.push('u: Unicode support');
+  if (flags.includes('v'))
+    explanations.push('v: Unicode sets (set operations in character classes)');
   if (flags.includes('y'))
     explanations.push('y: Sticky search (match at current position only)');
   if (flags.includes('d'))
@@ -225,31 +656,92 @@ function explainFlags(flags: string): string {
   return explanations.join(', ');
 }
 
+export interface MatchGroup {
+  index: number;
+  name?: string;
+  value?: string;
+  start?: number;
+  end?: number;
+}
+
+export interface HighlightSegment {
+  text: string;
+  isMatch: boolean;
+  matchIndex?: number;
+  groupIndex?: number;
+  groupName?: string;
+  start?: number;
+  end?: number;
+  children?: HighlightSegment[];
+}
+
+/**
+ * Lists the name of each capturing group, by group number
+ * @param pattern - The regex pattern
+ * @param flags - The regex flags
+ * @returns Names indexed by group number, undefined for unnamed groups;
+ *   empty when the pattern cannot be parsed
+ */
+export function getCaptureGroupNames(
+  pattern: string,
+  flags: string = ''
+): Array<string | undefined> {
+  try {
+    const names: Array<string | undefined> = [];
+    for (const node of walkRegexAst(parseRegex(pattern, flags).body)) {
+      if (node.type === 'group' && node.index !== undefined) {
+        names[node.index] = node.name;
+      }
+    }
+    return names;
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Describes the capture groups of a match
+ * @param match - A match found with the d flag, so that group offsets are known
+ * @param groupNames - Group names by group number, from getCaptureGroupNames
+ * @returns One entry per capture group, including groups that did not participate
+ */
+export function getMatchGroups(
+  match: RegExpMatchArray,
+  groupNames: Array<string | undefined> = []
+): MatchGroup[] {
+  const groups: MatchGroup[] = [];
+
+  for (let index = 1; index < match.length; index++) {
+    const offsets = match.indices?.[index];
+    groups.push({
+      index,
+      ...(groupNames[index] !== undefined && { name: groupNames[index] }),
+      ...(match[index] !== undefined && { value: match[index] }),
+      ...(offsets && { start: offsets[0], end: offsets[1] }),
+    });
+  }
+
+  return groups;
+}
+
 /**
  * Highlights matches in a test string
  * @param testString - The string to highlight matches in
  * @param matches - Array of regex match results
- * @returns An array of segments with match information
+ * @param groupNames - Group names by group number, from getCaptureGroupNames
+ * @returns An array of segments with match information; matches found with the
+ *   d flag carry their capture groups as nested child segments
  */
 export function highlightMatches(
   testString: string,
-  matches: RegExpMatchArray[]
-): Array<{
-  text: string;
-  isMatch: boolean;
-  matchIndex?: number;
-  groupIndex?: number;
-}> {
+  matches: RegExpMatchArray[],
+  groupNames: Array<string | undefined> = []
+): HighlightSegment[] {
   if (!testString || matches.length === 0) {
     return [{ text: testString, isMatch: false }];
   }
 
-  const segments: Array<{
-    text: string;
-    isMatch: boolean;
-    matchIndex?: number;
-    groupIndex?: number;
-  }> = [];
+  const segments: HighlightSegment[] = [];
 
   let lastIndex = 0;
 
@@ -259,6 +751,7 @@ export function highlightMatches(
   for (let i = 0; i < sortedMatches.length; i++) {
     const match = sortedMatches[i];
     const matchIndex = match.index!;
+    const matchEnd = matchIndex + match[0].length;
 
     // Add non-matching segment before this match
     if (matchIndex > lastIndex) {
@@ -268,22 +761,33 @@ export function highlightMatches(
       });
     }
 
-    // Add the full match
+    // Groups inside lookarounds can reach outside the match, so clip them to it
+    const groups = getMatchGroups(match, groupNames)
+      .filter(group => group.start !== undefined)
+      .map(group => ({
+        ...group,
+        start: Math.max(group.start!, matchIndex),
+        end: Math.min(group.end!, matchEnd),
+      }))
+      .filter(group => group.start < group.end);
+
+    // Add the full match, with its capture groups nested inside
     segments.push({
       text: match[0],
       isMatch: true,
       matchIndex: i,
+      ...(groups.length > 0 && {
+        children: nestGroupSegments(
+          testString,
+          groups,
+          matchIndex,
+          matchEnd,
+          i
+        ),
+      }),
     });
 
-    // Add capturing groups if any (skip the first element which is the full match)
-    for (let j = 1; j < match.length; j++) {
-      if (match[j] !== undefined) {
-        // We don't add segments for groups as they're already part of the full match
-        // But we could add this information if needed
-      }
-    }
-
-    lastIndex = matchIndex + match[0].length;
+    lastIndex = matchEnd;
   }
 
   // Add any remaining text after the last match
@@ -296,3 +800,80 @@ export function highlightMatches(
 
   return segments;
 }
+
+/**
+ * Splits part of a match into segments, nesting groups inside the groups that contain them
+ * @param testString - The string being highlighted
+ * @param groups - Non-empty groups that lie within start and end
+ * @param start - Where the part begins
+ * @param end - Where the part ends
+ * @param matchIndex - The index of the match the part belongs to
+ * @returns Segments covering the part, with each group's contents as children
+ */
+function nestGroupSegments(
+  testString: string,
+  groups: Array<MatchGroup & { start: number; end: number }>,
+  start: number,
+  end: number,
+  matchIndex: number
+): HighlightSegment[] {
+  const sorted = [...groups].sort(
+    (a, b) => a.start - b.start || b.end - a.end || a.index - b.index
+  );
+  const segments: HighlightSegment[] = [];
+  let position = start;
+  let i = 0;
+
+  while (i < sorted.length) {
+    const group = sorted[i];
+
+    // Every following group that starts inside this one belongs to it
+    let next = i + 1;
+    while (next < sorted.length && sorted[next].start < group.end) {
+      next++;
+    }
+    const innerGroups = sorted
+      .slice(i + 1, next)
+      .map(inner => ({ ...inner, end: Math.min(inner.end, group.end) }));
+
+    if (group.start > position) {
+      segments.push({
+        text: testString.substring(position, group.start),
+        isMatch: true,
+        matchIndex,
+      });
+    }
+
+    segments.push({
+      text: testString.substring(group.start, group.end),
+      isMatch: true,
+      matchIndex,
+      groupIndex: group.index,
+      ...(group.name !== undefined && { groupName: group.name }),
+      start: group.start,
+      end: group.end,
+      ...(innerGroups.length > 0 && {
+        children: nestGroupSegments(
+          testString,
+          innerGroups,
+          group.start,
+          group.end,
+          matchIndex
+        ),
+      }),
+    });
+
+    position = group.end;
+    i = next;
+  }
+
+  if (position < end) {
+    segments.push({
+      text: testString.substring(position, end),
+      isMatch: true,
+      matchIndex,
+    });
+  }
+
+  return segments;
+}
@@ -0,0 +1,550 @@
+/**
+ * Decoding and inspection of SAML 2.0 protocol messages and assertions
+ */
+
+import { isTokenNotYetValid, systemClock } from './jwt-utils';
+import type { Clock, JwtPayload } from './jwt-utils';
+import type { SecurityFinding } from './security-findings';
+
+export type SamlEncoding = 'xml' | 'base64' | 'deflate';
+
+export interface SamlAttribute {
+  name: string;
+  friendlyName?: string;
+  values: string[];
+}
+
+export interface SamlSubject {
+  nameId?: string;
+  format?: string;
+  recipient?: string;
+  inResponseTo?: string;
+  notOnOrAfter?: number;
+}
+
+export interface SamlConditions {
+  notBefore?: number;
+  notOnOrAfter?: number;
+  audiences: string[];
+}
+
+export interface SamlAssertion {
+  id?: string;
+  issuer?: string;
+  issueInstant?: number;
+  subject?: SamlSubject;
+  conditions?: SamlConditions;
+  authnInstant?: number;
+  sessionIndex?: string;
+  attributes: SamlAttribute[];
+  // A ds:Signature element is present; it is never verified
+  hasSignatureElement: boolean;
+}
+
+export interface DecodedSamlMessage {
+  messageType: string;
+  encoding: SamlEncoding;
+  xml: string;
+  id?: string;
+  issueInstant?: number;
+  destination?: string;
+  issuer?: string;
+  statusCode?: string;
+  assertionConsumerServiceUrl?: string;
+  // A ds:Signature element is present; it is never verified
+  hasSignatureElement: boolean;
+  assertions: SamlAssertion[];
+  encryptedAssertionCount: number;
+}
+
+export const SAML_ASSERTION_NS = 'urn:oasis:names:tc:SAML:2.0:assertion';
+export const SAML_PROTOCOL_NS = 'urn:oasis:names:tc:SAML:2.0:protocol';
+const XMLDSIG_NS = 'http://www.w3.org/2000/09/xmldsig#';
+const SUCCESS_STATUS = 'urn:oasis:names:tc:SAML:2.0:status:Success';
+
+/**
+ * Decodes a SAMLResponse or SAMLRequest value
+ * @param input - Raw XML, a base64 POST binding value, a deflated redirect binding value or a URL carrying one
+ * @returns Decoded message or error
+ */
+export async function decodeSamlMessage(input: string): Promise<{
+  isValid: boolean;
+  decoded?: DecodedSamlMessage;
+  error?: string;
+}> {
+  try {
+    const value = extractSamlParameter(input.trim());
+    if (!value) {
+      return { isValid: false, error: 'SAML message is empty' };
+    }
+
+    const { xml, encoding } = await decodeSamlXml(value);
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      return { isValid: false, error: 'The decoded value is not valid XML' };
+    }
+
+    const root = doc.documentElement;
+    if (
+      root.namespaceURI !== SAML_PROTOCOL_NS &&
+      root.namespaceURI !== SAML_ASSERTION_NS
+    ) {
+      return {
+        isValid: false,
+        error: `<${root.localName}> is not a SAML 2.0 protocol message or assertion`,
+      };
+    }
+
+    // A bare assertion is its own only assertion
+    const assertionElements =
+      root.namespaceURI === SAML_ASSERTION_NS && root.localName === 'Assertion'
+        ? [root]
+        : getChildren(root, SAML_ASSERTION_NS, 'Assertion');
+
+    return {
+      isValid: true,
+      decoded: {
+        messageType: root.localName,
+        encoding,
+        xml,
+        id: root.getAttribute('ID') ?? undefined,
+        issueInstant: parseSamlTime(root.getAttribute('IssueInstant')),
+        destination: root.getAttribute('Destination') ?? undefined,
+        issuer: getChildText(root, SAML_ASSERTION_NS, 'Issuer'),
+        statusCode: getStatusCode(root),
+        assertionConsumerServiceUrl:
+          root.getAttribute('AssertionConsumerServiceURL') ?? undefined,
+        hasSignatureElement:
+          getChildren(root, XMLDSIG_NS, 'Signature').length > 0,
+        assertions: assertionElements.map(parseAssertion),
+        encryptedAssertionCount: getChildren(
+          root,
+          SAML_ASSERTION_NS,
+          'EncryptedAssertion'
+        ).length,
+      },
+    };
+  } catch (error) {
+    return {
+      isValid: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : 'Failed to decode SAML message',
+    };
+  }
+}
+
+/**
+ * Checks whether a NotOnOrAfter instant has been reached. Unlike a JWT exp, the
+ * instant itself is already outside the validity window (SAML Core section 2.5.1.2)
+ * @param notOnOrAfter - The NotOnOrAfter time in seconds since the epoch
+ * @param clock - The clock to compare against (default: system clock)
+ * @returns Whether the time is set and has been reached
+ */
+export function isSamlTimeReached(
+  notOnOrAfter: number | undefined,
+  clock: Clock = systemClock
+): boolean {
+  return (
+    notOnOrAfter !== undefined && Math.floor(clock() / 1000) >= notOnOrAfter
+  );
+}
+
+/**
+ * Maps the times and parties of an assertion onto JWT claims, so the JWT expiry logic applies
+ * @param assertion - The decoded assertion
+ * @returns A JWT payload with iss, sub, aud, nbf, exp and iat
+ */
+export function samlAssertionToJwtPayload(
+  assertion: SamlAssertion
+): JwtPayload {
+  const payload: JwtPayload = {};
+  if (assertion.issuer) payload.iss = assertion.issuer;
+  if (assertion.subject?.nameId) payload.sub = assertion.subject.nameId;
+  if (assertion.conditions?.audiences.length) {
+    payload.aud = assertion.conditions.audiences;
+  }
+  if (assertion.conditions?.notBefore !== undefined) {
+    payload.nbf = assertion.conditions.notBefore;
+  }
+  if (assertion.conditions?.notOnOrAfter !== undefined) {
+    payload.exp = assertion.conditions.notOnOrAfter;
+  }
+  if (assertion.issueInstant !== undefined) {
+    payload.iat = assertion.issueInstant;
+  }
+  return payload;
+}
+
+/**
+ * Flags unsigned, expired and unrestricted assertions in a SAML message
+ * @param decoded - The decoded message
+ * @param clock - The clock used for the time checks (default: system clock)
+ * @returns Findings ordered as they occur in the message
+ */
+export function lintSamlMessage(
+  decoded: DecodedSamlMessage,
+  clock: Clock = systemClock
+): SecurityFinding[] {
+  const findings: SecurityFinding[] = [];
+
+  if (decoded.statusCode && decoded.statusCode !== SUCCESS_STATUS) {
+    findings.push({
+      id: 'saml-status',
+      severity: 'high',
+      title: 'Response status is not Success',
+      explanation: `The identity provider answered with ${decoded.statusCode}, so the response carries no usable assertion.`,
+      location: 'Status.StatusCode',
+    });
+  }
+
+  if (decoded.encryptedAssertionCount > 0) {
+    findings.push({
+      id: 'saml-encrypted-assertion',
+      severity: 'low',
+      title: 'Encrypted assertions cannot be inspected',
+      explanation: `${decoded.encryptedAssertionCount} assertion(s) are encrypted for the service provider and need its private key to read.`,
+      location: 'EncryptedAssertion',
+    });
+  }
+
+  decoded.assertions.forEach((assertion, index) => {
+    const location =
+      decoded.assertions.length > 1 ? `Assertion[${index}]` : 'Assertion';
+    const payload = samlAssertionToJwtPayload(assertion);
+
+    // A response signature covers every assertion it contains
+    if (!assertion.hasSignatureElement && !decoded.hasSignatureElement) {
+      findings.push({
+        id: 'saml-unsigned',
+        severity: 'critical',
+        title: 'Assertion is not signed',
+        explanation:
+          'Neither the assertion nor the enclosing response carries an XML signature, so anyone can forge or alter its subject and attributes.',
+        location,
+      });
+    }
+
+    if (isSamlTimeReached(assertion.conditions?.notOnOrAfter, clock)) {
+      findings.push({
+        id: 'saml-expired',
+        severity: 'high',
+        title: 'Assertion has expired',
+        explanation:
+          'The NotOnOrAfter condition is in the past, so service providers must reject this assertion.',
+        location: `${location}.Conditions.NotOnOrAfter`,
+      });
+    }
+
+    if (isTokenNotYetValid(payload, clock)) {
+      findings.push({
+        id: 'saml-not-yet-valid',
+        severity: 'medium',
+        title: 'Assertion is not yet valid',
+        explanation:
+          'The NotBefore condition is in the future. Check the clocks of the identity and service providers.',
+        location: `${location}.Conditions.NotBefore`,
+      });
+    }
+
+    if (isSamlTimeReached(assertion.subject?.notOnOrAfter, clock)) {
+      findings.push({
+        id: 'saml-confirmation-expired',
+        severity: 'medium',
+        title: 'Subject confirmation has expired',
+        explanation:
+          'The bearer subject confirmation window has passed, so the assertion can no longer be presented.',
+        location: `${location}.Subject.SubjectConfirmationData.NotOnOrAfter`,
+      });
+    }
+
+    if (!assertion.conditions?.audiences.length) {
+      findings.push({
+        id: 'saml-no-audience',
+        severity: 'medium',
+        title: 'No audience restriction',
+        explanation:
+          'Without an AudienceRestriction any service provider trusting the issuer would accept this assertion.',
+        location: `${location}.Conditions`,
+      });
+    }
+  });
+
+  return findings;
+}
+
+/**
+ * Pretty-prints an XML document with two space indentation
+ * @param xml - The XML text
+ * @returns The indented XML
+ */
+export function formatXml(xml: string): string {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    return xml;
+  }
+  return formatXmlNode(doc.documentElement, 0);
+}
+
+/**
+ * Builds a sample unsigned SAML response valid for the next hour
+ * @param clock - The clock used for the assertion times (default: system clock)
+ * @returns The base64 encoded response, as sent with the POST binding
+ */
+export function generateSampleSamlResponse(clock: Clock = systemClock): string {
+  const now = clock();
+  const time = (offsetMinutes: number) =>
+    new Date(now + offsetMinutes * 60000).toISOString().replace(/\.\d+Z$/, 'Z');
+
+  const xml = `<samlp:Response xmlns:samlp="${SAML_PROTOCOL_NS}" xmlns:saml="${SAML_ASSERTION_NS}" ID="_response1" Version="2.0" IssueInstant="${time(0)}" Destination="https://sp.example.com/acs" InResponseTo="_request1"><saml:Issuer>https://idp.example.com</saml:Issuer><samlp:Status><samlp:StatusCode Value="${SUCCESS_STATUS}"/></samlp:Status><saml:Assertion ID="_assertion1" Version="2.0" IssueInstant="${time(0)}"><saml:Issuer>https://idp.example.com</saml:Issuer><saml:Subject><saml:NameID Format="urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress">john.doe@example.com</saml:NameID><saml:SubjectConfirmation Method="urn:oasis:names:tc:SAML:2.0:cm:bearer"><saml:SubjectConfirmationData NotOnOrAfter="${time(5)}" Recipient="https://sp.example.com/acs" InResponseTo="_request1"/></saml:SubjectConfirmation></saml:Subject><saml:Conditions NotBefore="${time(-5)}" NotOnOrAfter="${time(60)}"><saml:AudienceRestriction><saml:Audience>https://sp.example.com</saml:Audience></saml:AudienceRestriction></saml:Conditions><saml:AuthnStatement AuthnInstant="${time(0)}" SessionIndex="_session1"><saml:AuthnContext><saml:AuthnContextClassRef>urn:oasis:names:tc:SAML:2.0:ac:classes:PasswordProtectedTransport</saml:AuthnContextClassRef></saml:AuthnContext></saml:AuthnStatement><saml:AttributeStatement><saml:Attribute Name="email" FriendlyName="mail"><saml:AttributeValue>john.doe@example.com</saml:AttributeValue></saml:Attribute><saml:Attribute Name="groups"><saml:AttributeValue>admins</saml:AttributeValue><saml:AttributeValue>developers</saml:AttributeValue></saml:Attribute></saml:AttributeStatement></saml:Assertion></samlp:Response>`;
+
+  return bytesToBase64(new TextEncoder().encode(xml));
+}
+
+/**
+ * Pulls the SAMLResponse or SAMLRequest value out of a URL or query string
+ * @param input - A URL, a query string or the value itself
+ * @returns The value, percent-decoded when it came from a query string
+ */
+function extractSamlParameter(input: string): string {
+  const match = input.match(/(?:^|[?&])(?:SAMLResponse|SAMLRequest)=([^&#]*)/);
+  if (!match) {
+    return input;
+  }
+
+  try {
+    return decodeURIComponent(match[1]);
+  } catch {
+    throw new Error('The SAML parameter is not valid percent-encoding');
+  }
+}
+
+/**
+ * Decodes a SAML value to XML text, inflating it when it uses the redirect binding
+ * @param value - Raw XML or a base64 value
+ * @returns The XML text and how it was encoded
+ */
+async function decodeSamlXml(
+  value: string
+): Promise<{ xml: string; encoding: SamlEncoding }> {
+  if (value.startsWith('<')) {
+    return { xml: value, encoding: 'xml' };
+  }
+
+  const base64 = value.replace(/\s+/g, '');
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(base64) || base64.length % 4 === 1) {
+    throw new Error('Expected XML, a base64 value or a URL with SAMLResponse');
+  }
+
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+
+  const text = new TextDecoder().decode(bytes);
+  if (text.trimStart().startsWith('<')) {
+    return { xml: text, encoding: 'base64' };
+  }
+
+  try {
+    return { xml: await inflateRaw(bytes), encoding: 'deflate' };
+  } catch {
+    throw new Error('The base64 value is neither XML nor deflated XML');
+  }
+}
+
+/**
+ * Inflates raw DEFLATE data, as used by the HTTP redirect binding
+ * @param bytes - The compressed bytes
+ * @returns The inflated UTF-8 text
+ */
+async function inflateRaw(bytes: Uint8Array): Promise<string> {
+  const stream = new Response(bytes).body!.pipeThrough(
+    new DecompressionStream('deflate-raw')
+  );
+  return new Response(stream).text();
+}
+
+/**
+ * Encodes bytes as standard base64
+ * @param bytes - The bytes to encode
+ * @returns The base64 text
+ */
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Parses a SAML xs:dateTime as a NumericDate
+ * @param value - The attribute value
+ * @returns Seconds since the epoch, or undefined when absent or invalid
+ */
+function parseSamlTime(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : Math.floor(time / 1000);
+}
+
+/**
+ * Gets the direct children of an element with a given namespace and name
+ * @param element - The parent element
+ * @param namespace - The namespace URI
+ * @param localName - The local name
+ * @returns The matching child elements
+ */
+function getChildren(
+  element: Element,
+  namespace: string,
+  localName: string
+): Element[] {
+  return Array.from(element.children).filter(
+    child => child.namespaceURI === namespace && child.localName === localName
+  );
+}
+
+/**
+ * Gets the trimmed text of the first matching child element
+ * @param element - The parent element
+ * @param namespace - The namespace URI
+ * @param localName - The local name
+ * @returns The text, or undefined when there is no such child
+ */
+function getChildText(
+  element: Element,
+  namespace: string,
+  localName: string
+): string | undefined {
+  return getChildren(element, namespace, localName)[0]?.textContent?.trim();
+}
+
+/**
+ * Gets the top-level status code of a response
+ * @param root - The protocol message element
+ * @returns The status code URI, when the message has one
+ */
+function getStatusCode(root: Element): string | undefined {
+  const status = getChildren(root, SAML_PROTOCOL_NS, 'Status')[0];
+  const code = status && getChildren(status, SAML_PROTOCOL_NS, 'StatusCode')[0];
+  return code?.getAttribute('Value') ?? undefined;
+}
+
+/**
+ * Extracts the issuer, subject, conditions, authentication and attributes of an assertion
+ * @param element - The saml:Assertion element
+ * @returns The decoded assertion
+ */
+function parseAssertion(element: Element): SamlAssertion {
+  const subject = getChildren(element, SAML_ASSERTION_NS, 'Subject')[0];
+  const conditions = getChildren(element, SAML_ASSERTION_NS, 'Conditions')[0];
+  const authn = getChildren(element, SAML_ASSERTION_NS, 'AuthnStatement')[0];
+
+  return {
+    id: element.getAttribute('ID') ?? undefined,
+    issuer: getChildText(element, SAML_ASSERTION_NS, 'Issuer'),
+    issueInstant: parseSamlTime(element.getAttribute('IssueInstant')),
+    subject: subject && parseSubject(subject),
+    conditions: conditions && {
+      notBefore: parseSamlTime(conditions.getAttribute('NotBefore')),
+      notOnOrAfter: parseSamlTime(conditions.getAttribute('NotOnOrAfter')),
+      audiences: Array.from(
+        conditions.getElementsByTagNameNS(SAML_ASSERTION_NS, 'Audience')
+      ).map(audience => audience.textContent?.trim() ?? ''),
+    },
+    authnInstant: parseSamlTime(authn?.getAttribute('AuthnInstant')),
+    sessionIndex: authn?.getAttribute('SessionIndex') ?? undefined,
+    attributes: Array.from(
+      element.getElementsByTagNameNS(SAML_ASSERTION_NS, 'Attribute')
+    ).map(attribute => ({
+      name: attribute.getAttribute('Name') ?? '',
+      friendlyName: attribute.getAttribute('FriendlyName') ?? undefined,
+      values: getChildren(attribute, SAML_ASSERTION_NS, 'AttributeValue').map(
+        value => value.textContent?.trim() ?? ''
+      ),
+    })),
+    hasSignatureElement:
+      getChildren(element, XMLDSIG_NS, 'Signature').length > 0,
+  };
+}
+
+/**
+ * Extracts the name identifier and bearer confirmation of a subject
+ * @param subject - The saml:Subject element
+ * @returns The decoded subject
+ */
+function parseSubject(subject: Element): SamlSubject {
+  const nameId = getChildren(subject, SAML_ASSERTION_NS, 'NameID')[0];
+  const confirmationData = subject.getElementsByTagNameNS(
+    SAML_ASSERTION_NS,
+    'SubjectConfirmationData'
+  )[0];
+
+  return {
+    nameId: nameId?.textContent?.trim(),
+    format: nameId?.getAttribute('Format') ?? undefined,
+    recipient: confirmationData?.getAttribute('Recipient') ?? undefined,
+    inResponseTo: confirmationData?.getAttribute('InResponseTo') ?? undefined,
+    notOnOrAfter: parseSamlTime(confirmationData?.getAttribute('NotOnOrAfter')),
+  };
+}
+
+/**
+ * Serializes an XML node and its descendants with indentation
+ * @param node - The node to serialize
+ * @param depth - The nesting depth
+ * @returns The indented XML
+ */
+function formatXmlNode(node: Node, depth: number): string {
+  const indent = '  '.repeat(depth);
+
+  if (node.nodeType === Node.COMMENT_NODE) {
+    return `${indent}<!--${node.nodeValue}-->`;
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) {
+    return `${indent}${escapeXml(node.nodeValue?.trim() ?? '')}`;
+  }
+
+  const element = node as Element;
+  const attributes = Array.from(element.attributes)
+    .map(attribute => ` ${attribute.name}="${escapeXml(attribute.value)}"`)
+    .join('');
+  const open = `${indent}<${element.tagName}${attributes}`;
+
+  // Whitespace between elements is layout, not content
+  const children = Array.from(element.childNodes).filter(
+    child =>
+      child.nodeType === Node.ELEMENT_NODE ||
+      child.nodeType === Node.COMMENT_NODE ||
+      child.nodeValue?.trim()
+  );
+
+  if (children.length === 0) {
+    return `${open}/>`;
+  }
+  if (children.length === 1 && children[0].nodeType === Node.TEXT_NODE) {
+    return `${open}>${escapeXml(children[0].nodeValue!.trim())}</${element.tagName}>`;
+  }
+
+  const inner = children.map(child => formatXmlNode(child, depth + 1));
+  return `${open}>\n${inner.join('\n')}\n${indent}</${element.tagName}>`;
+}
+
+/**
+ * Escapes text for use in XML content and attribute values
+ * @param text - The text to escape
+ * @returns The escaped text
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,241 @@
+/**
+ * Offline audit of HMAC secrets against common and user supplied wordlists
+ */
+
+import { decodeJwt, verifyJwtSignature } from './jwt-utils';
+
+export interface SecretAuditProgress {
+  tried: number;
+  total: number;
+}
+
+export interface SecretAuditResult {
+  found: boolean;
+  secret?: string;
+  tried: number;
+  total: number;
+  error?: string;
+}
+
+export type SecretAuditMessage =
+  | { type: 'progress'; progress: SecretAuditProgress }
+  | { type: 'done'; result: SecretAuditResult };
+
+export interface SecretAuditRequest {
+  token: string;
+  wordlist: string[];
+}
+
+// Defaults from libraries, tutorials and JWT debuggers, including this one
+export const COMMON_JWT_SECRETS = [
+  'your-256-bit-secret',
+  'your-384-bit-secret',
+  'your-512-bit-secret',
+  'a-string-secret-at-least-256-bits-long',
+  'secret',
+  'Secret',
+  'SECRET',
+  'secret123',
+  'secretkey',
+  'secret-key',
+  'secret_key',
+  'SECRET_KEY',
+  'your-secret-key',
+  'your_secret_key',
+  'yoursecretkey',
+  'your-jwt-secret',
+  'your_jwt_secret',
+  'jwt',
+  'JWT',
+  'jwt-secret',
+  'jwt_secret',
+  'jwtsecret',
+  'JWT_SECRET',
+  'jwt-secret-key',
+  'jwt_secret_key',
+  'mysecret',
+  'my-secret',
+  'my_secret',
+  'mysecretkey',
+  'my-secret-key',
+  'my_secret_key',
+  'MySecretKey',
+  'ThisIsMySecretKey',
+  'supersecret',
+  'super-secret',
+  'super_secret',
+  'supersecretkey',
+  'topsecret',
+  'shhhhh',
+  'shhhhhared-secret',
+  's3cr3t',
+  'keyboard cat',
+  'hard!to-guess_secret',
+  'changeme',
+  'change-me',
+  'changeit',
+  'default',
+  'key',
+  'private',
+  'privatekey',
+  'private-key',
+  'app-secret',
+  'app_secret',
+  'appsecret',
+  'api-secret',
+  'api_secret',
+  'apikey',
+  'token',
+  'token-secret',
+  'auth',
+  'auth-secret',
+  'authsecret',
+  'password',
+  'Password',
+  'password123',
+  'passw0rd',
+  'admin',
+  'administrator',
+  'root',
+  'test',
+  'testing',
+  'test-secret',
+  'dev',
+  'development',
+  'production',
+  'example',
+  'demo',
+  'hello',
+  'qwerty',
+  'letmein',
+  '123456',
+  '12345678',
+  '1234567890',
+];
+
+// How many candidates are tried between progress reports
+const PROGRESS_INTERVAL = 250;
+
+/**
+ * Parses a wordlist with one candidate secret per line
+ * @param text - The wordlist text
+ * @returns The unique, non-empty candidates in order
+ */
+export function parseWordlist(text: string): string[] {
+  const candidates = text
+    .split('\n')
+    .map(line => line.replace(/\r$/, ''))
+    .filter(line => line.length > 0);
+  return [...new Set(candidates)];
+}
+
+/**
+ * Combines the bundled common secrets with a user supplied wordlist
+ * @param wordlist - Additional candidates (default: none)
+ * @returns The unique candidates, bundled secrets first
+ */
+export function getAuditCandidates(wordlist: string[] = []): string[] {
+  return [...new Set([...COMMON_JWT_SECRETS, ...wordlist])];
+}
+
+/**
+ * Tries each candidate secret against the signature of an HS* token
+ * @param token - The HS256, HS384 or HS512 token
+ * @param candidates - The candidate secrets
+ * @param onProgress - Called periodically with the number of candidates tried
+ * @returns The secret that verifies the token, if any
+ */
+export async function auditHmacSecret(
+  token: string,
+  candidates: string[],
+  onProgress?: (progress: SecretAuditProgress) => void
+): Promise<SecretAuditResult> {
+  const total = candidates.length;
+
+  const { decoded, error } = decodeJwt(token);
+  if (!decoded) {
+    return { found: false, tried: 0, total, error };
+  }
+  if (!/^HS(256|384|512)$/.test(decoded.header.alg)) {
+    return {
+      found: false,
+      tried: 0,
+      total,
+      error: 'Only HS256, HS384 and HS512 tokens can be audited',
+    };
+  }
+  if (decoded.detached) {
+    return {
+      found: false,
+      tried: 0,
+      total,
+      error: 'Tokens with a detached payload cannot be audited',
+    };
+  }
+
+  onProgress?.({ tried: 0, total });
+  for (let i = 0; i < total; i++) {
+    const result = await verifyJwtSignature(token, candidates[i]);
+    if (result.isValid) {
+      return { found: true, secret: candidates[i], tried: i + 1, total };
+    }
+
+    if ((i + 1) % PROGRESS_INTERVAL === 0) {
+      onProgress?.({ tried: i + 1, total });
+    }
+  }
+
+  return { found: false, tried: total, total };
+}
+
+/**
+ * Runs a secret audit in a Web Worker so large wordlists do not block the page
+ * @param request - The token and the user supplied wordlist
+ * @param onProgress - Called periodically with the number of candidates tried
+ * @returns The pending result, and a function that stops the audit
+ */
+export function startSecretAudit(
+  request: SecretAuditRequest,
+  onProgress: (progress: SecretAuditProgress) => void
+): { result: Promise<SecretAuditResult>; cancel: () => void } {
+  const worker = new Worker(
+    new URL('./secret-audit.worker.ts', import.meta.url),
+    { type: 'module' }
+  );
+  let settle: (result: SecretAuditResult) => void = () => {};
+  let lastProgress: SecretAuditProgress = { tried: 0, total: 0 };
+
+  const result = new Promise<SecretAuditResult>(resolve => {
+    settle = result => {
+      worker.terminate();
+      resolve(result);
+    };
+
+    worker.addEventListener(
+      'message',
+      (event: MessageEvent<SecretAuditMessage>) => {
+        if (event.data.type === 'progress') {
+          lastProgress = event.data.progress;
+          onProgress(event.data.progress);
+        } else {
+          settle(event.data.result);
+        }
+      }
+    );
+    worker.addEventListener('error', event => {
+      settle({
+        found: false,
+        ...lastProgress,
+        error: event.message || 'The audit worker failed',
+      });
+    });
+  });
+
+  worker.postMessage(request);
+
+  return {
+    result,
+    cancel: () =>
+      settle({ found: false, ...lastProgress, error: 'Audit cancelled' }),
+  };
+}
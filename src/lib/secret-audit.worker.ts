@@ -0,0 +1,31 @@
+/**
+ * Web Worker that runs a secret audit off the main thread
+ */
+
+import {
+  auditHmacSecret,
+  getAuditCandidates,
+  type SecretAuditMessage,
+  type SecretAuditRequest,
+} from './secret-audit';
+
+/**
+ * Posts a message back to the page
+ * @param message - The progress report or final result
+ */
+function post(message: SecretAuditMessage): void {
+  self.postMessage(message);
+}
+
+self.addEventListener(
+  'message',
+  async (event: MessageEvent<SecretAuditRequest>) => {
+    const { token, wordlist } = event.data;
+    const result = await auditHmacSecret(
+      token,
+      getAuditCandidates(wordlist),
+      progress => post({ type: 'progress', progress })
+    );
+    post({ type: 'done', result });
+  }
+);
@@ -0,0 +1,31 @@
+/**
+ * Finding type shared by the JWT, SAML and regex security checks
+ */
+
+export type SecuritySeverity = 'critical' | 'high' | 'medium' | 'low';
+
+export interface SecurityFinding {
+  id: string;
+  severity: SecuritySeverity;
+  title: string;
+  explanation: string;
+  location?: string;
+}
+
+export const SEVERITY_ORDER: Record<SecuritySeverity, number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+};
+
+/**
+ * Sorts findings from most to least severe, keeping the order of equal ones
+ * @param findings - The findings to sort in place
+ * @returns The sorted findings
+ */
+export function sortBySeverity(findings: SecurityFinding[]): SecurityFinding[] {
+  return findings.sort(
+    (a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]
+  );
+}
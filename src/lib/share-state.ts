@@ -0,0 +1,94 @@
+/**
+ * Shareable JWT Decoder state kept in the URL fragment, which browsers never send to servers
+ */
+
+import { getSupportedAlgorithms } from './jwt-utils';
+
+export interface SharedClaimsPolicy {
+  issuer?: string;
+  audience?: string;
+  requiredClaims?: string;
+  clockSkewSeconds?: string;
+  maxTokenAgeSeconds?: string;
+}
+
+/**
+ * Everything a shared link may carry. Secrets and keys are deliberately absent,
+ * so they can neither be shared nor injected by a crafted link.
+ */
+export interface SharedDecoderState {
+  token?: string;
+  algorithm?: string;
+  claimsPolicy?: SharedClaimsPolicy;
+}
+
+// Fragment parameter for each claims policy field
+const POLICY_PARAMS: Record<keyof SharedClaimsPolicy, string> = {
+  issuer: 'iss',
+  audience: 'aud',
+  requiredClaims: 'required',
+  clockSkewSeconds: 'skew',
+  maxTokenAgeSeconds: 'maxAge',
+};
+
+/**
+ * Encodes decoder state as a URL fragment
+ * @param state - The state to share
+ * @returns The fragment, without the leading '#', omitting empty values
+ */
+export function encodeShareFragment(state: SharedDecoderState): string {
+  const params = new URLSearchParams();
+  if (state.token) params.set('token', state.token);
+  if (state.algorithm) params.set('alg', state.algorithm);
+
+  for (const [field, param] of Object.entries(POLICY_PARAMS)) {
+    const value = state.claimsPolicy?.[field as keyof SharedClaimsPolicy];
+    if (value) params.set(param, value);
+  }
+
+  return params.toString();
+}
+
+/**
+ * Decodes decoder state from a URL fragment, ignoring unknown parameters
+ * @param fragment - The fragment, with or without the leading '#'
+ * @returns The shared state
+ */
+export function decodeShareFragment(fragment: string): SharedDecoderState {
+  const params = new URLSearchParams(fragment.replace(/^#/, ''));
+  const state: SharedDecoderState = {};
+
+  const token = params.get('token')?.trim();
+  if (token) state.token = token;
+
+  const algorithm = params.get('alg');
+  if (algorithm && getSupportedAlgorithms().includes(algorithm)) {
+    state.algorithm = algorithm;
+  }
+
+  const claimsPolicy: SharedClaimsPolicy = {};
+  for (const [field, param] of Object.entries(POLICY_PARAMS)) {
+    const value = params.get(param);
+    if (value) claimsPolicy[field as keyof SharedClaimsPolicy] = value;
+  }
+  if (Object.keys(claimsPolicy).length > 0) {
+    state.claimsPolicy = claimsPolicy;
+  }
+
+  return state;
+}
+
+/**
+ * Builds a link that restores decoder state
+ * @param pageUrl - The URL of the decoder page; any existing fragment is replaced
+ * @param state - The state to share
+ * @returns The shareable URL
+ */
+export function buildShareUrl(
+  pageUrl: string,
+  state: SharedDecoderState
+): string {
+  const url = new URL(pageUrl);
+  url.hash = encodeShareFragment(state);
+  return url.toString();
+}
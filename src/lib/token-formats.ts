@@ -0,0 +1,471 @@
+/**
+ * Format detection and parsers for PASETO and Fernet tokens
+ */
+
+import { importJWK, importSPKI } from 'jose';
+import {
+  base64UrlToBytes,
+  bytesToBase64Url,
+  isJwsJson,
+  type JwtPayload,
+  type JwtVerificationResult,
+} from './jwt-utils';
+
+export type TokenFormat =
+  | 'jwt'
+  | 'jwe'
+  | 'jws-json'
+  | 'paseto'
+  | 'fernet'
+  | 'unknown';
+
+export interface DecodedPaseto {
+  version: string;
+  purpose: 'local' | 'public';
+  claims?: Record<string, unknown>;
+  message?: string;
+  signature?: string;
+  nonce?: string;
+  ciphertextLength?: number;
+  footer?: string;
+  footerClaims?: Record<string, unknown>;
+}
+
+export interface DecodedFernet {
+  version: number;
+  timestamp: number;
+  iv: string;
+  ciphertextLength: number;
+  hmac: string;
+}
+
+export interface FernetVerificationResult extends JwtVerificationResult {
+  plaintext?: string;
+}
+
+const PASETO_PATTERN =
+  /^(v[1-4])\.(local|public)\.([A-Za-z0-9_-]+)(?:\.([A-Za-z0-9_-]+))?$/;
+
+// Ed25519 signatures and the v4.local nonce and BLAKE2b tag are 32 or 64 bytes
+const ED25519_SIGNATURE_BYTES = 64;
+const V4_LOCAL_NONCE_BYTES = 32;
+const V4_LOCAL_TAG_BYTES = 32;
+
+// Fernet: version (1) + timestamp (8) + IV (16) + ciphertext (n * 16) + HMAC (32)
+const FERNET_VERSION = 0x80;
+const FERNET_OVERHEAD_BYTES = 57;
+
+// PASETO registered claims holding ISO 8601 datetimes
+const PASETO_TIME_CLAIMS = ['exp', 'nbf', 'iat'];
+
+/**
+ * Detects the format of a token from its shape
+ * @param token - The token to inspect
+ * @returns The detected token format
+ */
+export function detectTokenFormat(token: string): TokenFormat {
+  const value = token.trim();
+  if (!value) {
+    return 'unknown';
+  }
+
+  if (isJwsJson(value)) {
+    return 'jws-json';
+  }
+
+  if (/^v\d\.(local|public)\./.test(value)) {
+    return 'paseto';
+  }
+
+  const parts = value.split('.').length;
+  if (parts === 5) {
+    return 'jwe';
+  }
+  if (parts === 3) {
+    return 'jwt';
+  }
+
+  return parts === 1 && parseFernetBytes(value) ? 'fernet' : 'unknown';
+}
+
+/**
+ * Decodes a PASETO v4 token without verification
+ * @param token - The PASETO token
+ * @returns Decoded token parts or error
+ */
+export function decodePaseto(token: string): {
+  isValid: boolean;
+  decoded?: DecodedPaseto;
+  error?: string;
+} {
+  const match = PASETO_PATTERN.exec(token.trim());
+  if (!match) {
+    return {
+      isValid: false,
+      error:
+        'Invalid PASETO format. Expected version.purpose.payload with an optional footer.',
+    };
+  }
+
+  const [, version, purpose, body, footerPart] = match;
+  if (version !== 'v4') {
+    return {
+      isValid: false,
+      error: `PASETO ${version} tokens are not supported, only v4`,
+    };
+  }
+
+  try {
+    const bytes = base64UrlToBytes(body);
+    const decoded: DecodedPaseto = {
+      version,
+      purpose: purpose as DecodedPaseto['purpose'],
+    };
+
+    if (footerPart) {
+      decoded.footer = new TextDecoder().decode(base64UrlToBytes(footerPart));
+      decoded.footerClaims = parseJsonObject(decoded.footer);
+    }
+
+    if (purpose === 'public') {
+      if (bytes.length < ED25519_SIGNATURE_BYTES) {
+        return { isValid: false, error: 'PASETO payload is too short' };
+      }
+      const messageBytes = bytes.slice(0, -ED25519_SIGNATURE_BYTES);
+      decoded.message = new TextDecoder('utf-8', { fatal: true }).decode(
+        messageBytes
+      );
+      decoded.claims = parseJsonObject(decoded.message);
+      decoded.signature = bytesToBase64Url(
+        bytes.slice(-ED25519_SIGNATURE_BYTES)
+      );
+    } else {
+      if (bytes.length < V4_LOCAL_NONCE_BYTES + V4_LOCAL_TAG_BYTES) {
+        return { isValid: false, error: 'PASETO payload is too short' };
+      }
+      decoded.nonce = bytesToBase64Url(bytes.slice(0, V4_LOCAL_NONCE_BYTES));
+      decoded.ciphertextLength =
+        bytes.length - V4_LOCAL_NONCE_BYTES - V4_LOCAL_TAG_BYTES;
+    }
+
+    return { isValid: true, decoded };
+  } catch (error) {
+    return {
+      isValid: false,
+      error: error instanceof Error ? error.message : 'Failed to decode token',
+    };
+  }
+}
+
+/**
+ * Verifies the Ed25519 signature of a PASETO v4.public token
+ * @param token - The PASETO token
+ * @param publicKey - PASERK k4.public key, 64 character hex key, SPKI PEM or OKP JWK
+ * @param implicitAssertion - The implicit assertion the token was signed with (default: empty)
+ * @returns Verification result
+ */
+export async function verifyPaseto(
+  token: string,
+  publicKey: string,
+  implicitAssertion: string = ''
+): Promise<JwtVerificationResult> {
+  if (!token || !publicKey) {
+    return { isValid: false, error: 'Token and public key are required' };
+  }
+
+  const match = PASETO_PATTERN.exec(token.trim());
+  if (!match || match[1] !== 'v4' || match[2] !== 'public') {
+    return {
+      isValid: false,
+      error: 'Only v4.public tokens can be verified with a public key',
+    };
+  }
+
+  try {
+    const [, , , body, footerPart] = match;
+    const bytes = base64UrlToBytes(body);
+    if (bytes.length < ED25519_SIGNATURE_BYTES) {
+      return { isValid: false, error: 'PASETO payload is too short' };
+    }
+
+    const encoder = new TextEncoder();
+    const preAuth = pae([
+      encoder.encode('v4.public.'),
+      bytes.slice(0, -ED25519_SIGNATURE_BYTES),
+      footerPart ? base64UrlToBytes(footerPart) : new Uint8Array(),
+      encoder.encode(implicitAssertion),
+    ]);
+
+    const key = await importEd25519PublicKey(publicKey);
+    const isValid = await crypto.subtle.verify(
+      { name: 'Ed25519' },
+      key,
+      bytes.slice(-ED25519_SIGNATURE_BYTES),
+      preAuth
+    );
+
+    return isValid
+      ? { isValid: true }
+      : { isValid: false, error: 'Invalid signature' };
+  } catch (error) {
+    return {
+      isValid: false,
+      error:
+        error instanceof Error ? error.message : 'Failed to verify signature',
+    };
+  }
+}
+
+/**
+ * Converts PASETO claims to JWT claims so they share the JWT claims view
+ * @param claims - The PASETO claims with ISO 8601 exp, nbf and iat
+ * @returns Claims with NumericDate time claims
+ */
+export function pasetoClaimsToJwtPayload(
+  claims: Record<string, unknown>
+): JwtPayload {
+  const payload: JwtPayload = { ...claims };
+
+  for (const claim of PASETO_TIME_CLAIMS) {
+    const value = claims[claim];
+    if (typeof value === 'string' && !Number.isNaN(Date.parse(value))) {
+      payload[claim] = Math.floor(Date.parse(value) / 1000);
+    }
+  }
+
+  return payload;
+}
+
+/**
+ * Builds JWT claims for a Fernet token so it shares the JWT claims view
+ * @param decoded - The decoded Fernet token
+ * @param plaintext - The decrypted plaintext, merged in when it is a JSON object
+ * @returns Claims with the token timestamp as iat
+ */
+export function fernetClaimsToJwtPayload(
+  decoded: DecodedFernet,
+  plaintext?: string
+): JwtPayload {
+  const claims = plaintext ? parseJsonObject(plaintext) : undefined;
+  return { iat: decoded.timestamp, ...claims };
+}
+
+/**
+ * Decodes the unencrypted fields of a Fernet token
+ * @param token - The Fernet token
+ * @returns Decoded token fields or error
+ */
+export function decodeFernet(token: string): {
+  isValid: boolean;
+  decoded?: DecodedFernet;
+  error?: string;
+} {
+  const bytes = parseFernetBytes(token.trim());
+  if (!bytes) {
+    return {
+      isValid: false,
+      error:
+        'Invalid Fernet token. Expected base64url data starting with version 0x80.',
+    };
+  }
+
+  return {
+    isValid: true,
+    decoded: {
+      version: bytes[0],
+      timestamp: Number(
+        new DataView(bytes.buffer, bytes.byteOffset).getBigUint64(1)
+      ),
+      iv: toHex(bytes.slice(9, 25)),
+      ciphertextLength: bytes.length - FERNET_OVERHEAD_BYTES,
+      hmac: toHex(bytes.slice(-32)),
+    },
+  };
+}
+
+/**
+ * Checks the HMAC of a Fernet token and decrypts it
+ * @param token - The Fernet token
+ * @param key - The base64url encoded 32 byte Fernet key
+ * @returns Verification result with the plaintext when the HMAC matches
+ */
+export async function verifyFernet(
+  token: string,
+  key: string
+): Promise<FernetVerificationResult> {
+  if (!token || !key) {
+    return { isValid: false, error: 'Token and key are required' };
+  }
+
+  const bytes = parseFernetBytes(token.trim());
+  if (!bytes) {
+    return { isValid: false, error: 'Invalid Fernet token' };
+  }
+
+  try {
+    const keyBytes = base64UrlToBytes(key.trim());
+    if (keyBytes.length !== 32) {
+      return {
+        isValid: false,
+        error: 'Fernet key must be 32 bytes of base64url data',
+      };
+    }
+
+    // The first half of the key signs, the second half encrypts
+    const signingKey = await crypto.subtle.importKey(
+      'raw',
+      keyBytes.slice(0, 16),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['verify']
+    );
+    const hmacValid = await crypto.subtle.verify(
+      'HMAC',
+      signingKey,
+      bytes.slice(-32),
+      bytes.slice(0, -32)
+    );
+    if (!hmacValid) {
+      return { isValid: false, error: 'HMAC verification failed' };
+    }
+
+    const encryptionKey = await crypto.subtle.importKey(
+      'raw',
+      keyBytes.slice(16),
+      { name: 'AES-CBC' },
+      false,
+      ['decrypt']
+    );
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-CBC', iv: bytes.slice(9, 25) },
+      encryptionKey,
+      bytes.slice(25, -32)
+    );
+
+    return { isValid: true, plaintext: new TextDecoder().decode(plaintext) };
+  } catch (error) {
+    return {
+      isValid: false,
+      error: error instanceof Error ? error.message : 'Failed to decrypt token',
+    };
+  }
+}
+
+/**
+ * Decodes a Fernet token and checks its structure
+ * @param token - The Fernet token
+ * @returns The token bytes, or undefined when it is not a Fernet token
+ */
+function parseFernetBytes(token: string): Uint8Array | undefined {
+  let bytes: Uint8Array;
+  try {
+    bytes = base64UrlToBytes(token);
+  } catch {
+    return undefined;
+  }
+
+  const ciphertextLength = bytes.length - FERNET_OVERHEAD_BYTES;
+  if (
+    bytes[0] !== FERNET_VERSION ||
+    ciphertextLength < 16 ||
+    ciphertextLength % 16 !== 0
+  ) {
+    return undefined;
+  }
+
+  return bytes;
+}
+
+/**
+ * Builds the PASETO pre-authentication encoding of a list of pieces
+ * @param pieces - The pieces to encode
+ * @returns The encoded bytes
+ */
+function pae(pieces: Uint8Array[]): Uint8Array {
+  const length = pieces.reduce((total, piece) => total + 8 + piece.length, 8);
+  const output = new Uint8Array(length);
+  const view = new DataView(output.buffer);
+
+  // Lengths are unsigned 64-bit little endian with the top bit cleared
+  view.setBigUint64(0, BigInt(pieces.length), true);
+  let offset = 8;
+  for (const piece of pieces) {
+    view.setBigUint64(offset, BigInt(piece.length), true);
+    output.set(piece, offset + 8);
+    offset += 8 + piece.length;
+  }
+
+  return output;
+}
+
+/**
+ * Imports an Ed25519 public key for PASETO v4.public verification
+ * @param publicKey - PASERK k4.public key, 64 character hex key, SPKI PEM or OKP JWK
+ * @returns The imported key
+ */
+async function importEd25519PublicKey(publicKey: string): Promise<CryptoKey> {
+  const value = publicKey.trim();
+
+  if (value.startsWith('-----BEGIN')) {
+    return importSPKI(value, 'EdDSA');
+  }
+  if (value.startsWith('{')) {
+    return (await importJWK(JSON.parse(value), 'EdDSA')) as CryptoKey;
+  }
+
+  let raw: Uint8Array;
+  if (value.startsWith('k4.public.')) {
+    raw = base64UrlToBytes(value.slice('k4.public.'.length));
+  } else if (/^[0-9a-fA-F]{64}$/.test(value)) {
+    raw = fromHex(value);
+  } else {
+    throw new Error(
+      'Public key must be a k4.public PASERK, a hex encoded key, an SPKI PEM or a JWK'
+    );
+  }
+
+  if (raw.length !== 32) {
+    throw new Error('Ed25519 public keys are 32 bytes');
+  }
+  return crypto.subtle.importKey('raw', raw, { name: 'Ed25519' }, false, [
+    'verify',
+  ]);
+}
+
+/**
+ * Parses JSON text as an object
+ * @param text - The JSON text
+ * @returns The parsed object, or undefined when the text is not a JSON object
+ */
+function parseJsonObject(text: string): Record<string, unknown> | undefined {
+  try {
+    const value: unknown = JSON.parse(text);
+    return value && typeof value === 'object' && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Encodes bytes as lowercase hex
+ * @param bytes - The bytes to encode
+ * @returns Hex string
+ */
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Decodes a hex string
+ * @param hex - The hex string
+ * @returns Decoded bytes
+ */
+function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
@@ -12,6 +12,7 @@ import {
   Braces,
   Palette,
   Key,
+  FileKey,
   ArrowRight,
   Sparkles,
   Zap,
@@ -95,6 +96,21 @@ const tools = [
     color: 'from-purple-500 to-violet-500',
     badge: 'Security',
   },
+  {
+    name: 'SAML Decoder',
+    path: '/saml',
+    icon: FileKey,
+    description:
+      'Decode SAML responses and requests to inspect assertions, conditions, and attributes.',
+    features: [
+      'POST & Redirect bindings',
+      'Pretty-printed XML',
+      'Expiry checks',
+      'Unsigned assertion warnings',
+    ],
+    color: 'from-amber-500 to-orange-500',
+    badge: 'Security',
+  },
 ];
 
 export function Home() {
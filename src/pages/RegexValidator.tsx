@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import {
   Card,
   CardContent,
@@ -9,16 +9,56 @@ import {
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
-import { AlertCircle, CheckCircle, Info } from 'lucide-react';
 import {
-  validateRegexPattern,
+  AlertCircle,
+  CheckCircle,
+  Info,
+  Languages,
+  Loader2,
+  Replace,
+} from 'lucide-react';
+import {
   testRegexPattern,
-  explainRegexPattern,
+  getCaptureGroupNames,
   highlightMatches,
+  replaceWithPattern,
 } from '@/lib/regex-utils';
+import { startRegexRun } from '@/lib/regex-runner';
+import {
+  REGEX_FLAVORS,
+  explainFlavorPattern,
+  toJavaScriptEquivalent,
+  toSourceSpan,
+  validateFlavorPattern,
+  type RegexFlavor,
+} from '@/lib/regex-flavors';
+import {
+  buildRailroadDiagram,
+  type RailroadDiagram,
+} from '@/lib/regex-railroad';
+import { analyzeRegexSafety } from '@/lib/regex-safety';
+import type { SecurityFinding } from '@/lib/security-findings';
+import { SecurityFindings } from '@/components/security/SecurityFindings';
+import { RegexExplanationTree } from '@/components/regex/RegexExplanationTree';
+import {
+  HighlightedMatches,
+  MatchGroupsTable,
+} from '@/components/regex/MatchHighlights';
+import { ReplacePreview } from '@/components/regex/ReplacePreview';
+import { FlavorTranslation } from '@/components/regex/FlavorTranslation';
+import { RegexRailroadDiagram } from '@/components/regex/RailroadDiagram';
 
 export function RegexValidator() {
   const [pattern, setPattern] = useState('\\d{3}-\\d{3}-\\d{4}');
@@ -26,44 +66,111 @@ export function RegexValidator() {
     'Call me at 123-456-7890 or 987-654-3210'
   );
   const [flags, setFlags] = useState('g');
+  const [flavor, setFlavor] = useState<RegexFlavor>('javascript');
+  const [replaceMode, setReplaceMode] = useState(false);
+  const [replacement, setReplacement] = useState('($&)');
 
   const [validation, setValidation] = useState<
-    ReturnType<typeof validateRegexPattern>
-  >({ isValid: true });
+    ReturnType<typeof validateFlavorPattern>
+  >({ isValid: true, unsupported: [] });
   const [testResult, setTestResult] = useState<
     ReturnType<typeof testRegexPattern>
   >({ isValid: true, matches: [] });
   const [explanation, setExplanation] = useState<
-    ReturnType<typeof explainRegexPattern>
+    ReturnType<typeof explainFlavorPattern>
   >([]);
+  const [diagram, setDiagram] = useState<RailroadDiagram | null>(null);
+  const [patternHighlight, setPatternHighlight] = useState<{
+    start: number;
+    end: number;
+    scrollLeft: number;
+  } | null>(null);
   const [highlights, setHighlights] = useState<
     ReturnType<typeof highlightMatches>
   >([]);
+  const [groupNames, setGroupNames] = useState<Array<string | undefined>>([]);
+  const [replaceResult, setReplaceResult] = useState<ReturnType<
+    typeof replaceWithPattern
+  > | null>(null);
+  const [safetyFindings, setSafetyFindings] = useState<SecurityFinding[]>([]);
+  const [isMatching, setIsMatching] = useState(false);
+
+  // Stops the match that is currently running
+  const cancelRunRef = useRef<(() => void) | null>(null);
+  const patternInputRef = useRef<HTMLInputElement>(null);
+
+  // Marks the part of the pattern behind a hovered diagram element
+  const highlightPattern = (span: { start: number; end: number } | null) => {
+    setPatternHighlight(
+      span && {
+        ...toSourceSpan(pattern, flavor, span.start, span.end),
+        scrollLeft: patternInputRef.current?.scrollLeft ?? 0,
+      }
+    );
+  };
 
   useEffect(() => {
-    // Validate pattern
-    const validationResult = validateRegexPattern(pattern);
+    // Validate pattern against the selected flavor
+    const validationResult = validateFlavorPattern(pattern, flavor);
     setValidation(validationResult);
 
-    // Test pattern against string
-    if (validationResult.isValid) {
-      const testResult = testRegexPattern(pattern, testString, flags);
+    // Other flavors are matched through their JavaScript equivalent
+    const equivalent = toJavaScriptEquivalent(pattern, flavor);
+    const runPattern = equivalent.pattern;
+    const runFlags = [...new Set(flags + equivalent.flags)].join('');
+
+    // Generate explanation and look for catastrophic backtracking, which
+    // RE2 rules out by design
+    const explanationResult = explainFlavorPattern(pattern, flavor, flags);
+    setExplanation(explanationResult);
+    setDiagram(buildRailroadDiagram(runPattern, runFlags));
+    setSafetyFindings(
+      flavor === 'go' ? [] : analyzeRegexSafety(runPattern, runFlags)
+    );
+
+    if (!validationResult.isValid) {
+      setReplaceResult(null);
+      return;
+    }
+
+    // Match in a worker, so a runaway pattern cannot freeze the page
+    let cancelled = false;
+    const { result, cancel } = startRegexRun({
+      pattern: runPattern,
+      testString,
+      flags: runFlags,
+      ...(replaceMode && { replacement }),
+    });
+    cancelRunRef.current = cancel;
+    const slowTimer = setTimeout(() => setIsMatching(true), 250);
+
+    result.then(({ testResult, replaceResult }) => {
+      if (cancelled) return;
+      clearTimeout(slowTimer);
+      cancelRunRef.current = null;
+      setIsMatching(false);
       setTestResult(testResult);
+      setReplaceResult(replaceResult);
 
-      // Generate highlights
-      if (testResult.isValid) {
-        const highlightResult = highlightMatches(
+      // Generate highlights, with capture groups labelled by name
+      const names = getCaptureGroupNames(runPattern, runFlags);
+      setGroupNames(names);
+      setHighlights(
+        highlightMatches(
           testString,
-          testResult.matches
-        );
-        setHighlights(highlightResult);
-      }
-    }
+          testResult.isValid ? testResult.matches : [],
+          names
+        )
+      );
+    });
 
-    // Generate explanation
-    const explanationResult = explainRegexPattern(pattern);
-    setExplanation(explanationResult);
-  }, [pattern, testString, flags]);
+    return () => {
+      cancelled = true;
+      clearTimeout(slowTimer);
+      setIsMatching(false);
+      cancel();
+    };
+  }, [pattern, testString, flags, flavor, replaceMode, replacement]);
 
   return (
     <div className="space-y-6">
@@ -97,17 +204,38 @@ export function RegexValidator() {
             <CardContent className="space-y-4">
               <div className="space-y-2">
                 <Label htmlFor="pattern">Regular Expression Pattern</Label>
-                <Input
-                  id="pattern"
-                  value={pattern}
-                  onChange={e => setPattern(e.target.value)}
-                  placeholder="Enter regex pattern..."
-                  className={validation.isValid ? '' : 'border-red-500'}
-                  aria-invalid={!validation.isValid}
-                  aria-describedby={
-                    validation.error ? 'pattern-error' : undefined
-                  }
-                />
+                <div className="relative">
+                  {patternHighlight && (
+                    <div
+                      aria-hidden="true"
+                      className="absolute inset-0 flex items-center overflow-hidden rounded-md border border-transparent px-3 py-1 text-base md:text-sm whitespace-pre text-transparent pointer-events-none"
+                    >
+                      <span
+                        style={{ marginLeft: -patternHighlight.scrollLeft }}
+                      >
+                        {pattern.slice(0, patternHighlight.start)}
+                      </span>
+                      <mark className="bg-yellow-200 dark:bg-yellow-800 text-transparent rounded-sm">
+                        {pattern.slice(
+                          patternHighlight.start,
+                          patternHighlight.end
+                        )}
+                      </mark>
+                    </div>
+                  )}
+                  <Input
+                    ref={patternInputRef}
+                    id="pattern"
+                    value={pattern}
+                    onChange={e => setPattern(e.target.value)}
+                    placeholder="Enter regex pattern..."
+                    className={`relative ${validation.isValid ? '' : 'border-red-500'}`}
+                    aria-invalid={!validation.isValid}
+                    aria-describedby={
+                      validation.error ? 'pattern-error' : undefined
+                    }
+                  />
+                </div>
                 {validation.error && (
                   <p
                     id="pattern-error"
@@ -118,6 +246,46 @@ export function RegexValidator() {
                     {validation.error}
                   </p>
                 )}
+                {validation.unsupported.length > 1 && (
+                  <div className="flex flex-wrap gap-1">
+                    {validation.unsupported.map(issue => (
+                      <Badge
+                        key={issue.start}
+                        variant="outline"
+                        className="font-mono"
+                        title={`${issue.label} at position ${issue.start}`}
+                      >
+                        {issue.raw}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Flavor</Label>
+                <Select
+                  value={flavor}
+                  onValueChange={value => setFlavor(value as RegexFlavor)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(REGEX_FLAVORS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {flavor !== 'javascript' && (
+                  <p className="text-xs text-muted-foreground">
+                    Validated against {REGEX_FLAVORS[flavor]} syntax. Matches
+                    are previewed with the JavaScript engine, approximating
+                    constructs it lacks such as atomic groups.
+                  </p>
+                )}
               </div>
 
               <div className="space-y-2">
@@ -144,9 +312,65 @@ export function RegexValidator() {
                   rows={4}
                 />
               </div>
+
+              <div className="flex items-center justify-between gap-2">
+                <Label htmlFor="replace-mode" className="text-sm">
+                  Replace mode
+                </Label>
+                <Switch
+                  id="replace-mode"
+                  checked={replaceMode}
+                  onCheckedChange={setReplaceMode}
+                />
+              </div>
+
+              {replaceMode && (
+                <div className="space-y-2">
+                  <Label htmlFor="replacement">Replacement</Label>
+                  <Input
+                    id="replacement"
+                    value={replacement}
+                    onChange={e => setReplacement(e.target.value)}
+                    placeholder="e.g. $1, $<name>, $&"
+                    className="font-mono"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    $1 or $&lt;name&gt; inserts a group, $&amp; the whole match,
+                    $` and $' the text before and after it, and $$ a literal $
+                  </p>
+                </div>
+              )}
             </CardContent>
           </Card>
 
+          {safetyFindings.length > 0 && (
+            <SecurityFindings
+              findings={safetyFindings}
+              description="Sub-patterns that can backtrack catastrophically on input that almost matches. Matching runs in a background worker and stops after a few seconds."
+            />
+          )}
+
+          {pattern && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Languages className="h-4 w-4" />
+                  Translate
+                </CardTitle>
+                <CardDescription>
+                  Convert the pattern to another regex flavor
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <FlavorTranslation
+                  pattern={pattern}
+                  flavor={flavor}
+                  flags={flags}
+                />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Pattern Explanation */}
           <Card>
             <CardHeader>
@@ -158,18 +382,23 @@ export function RegexValidator() {
             </CardHeader>
             <CardContent>
               {explanation.length > 0 ? (
-                <div className="space-y-2">
-                  {explanation.map((item, index) => (
-                    <div key={index} className="flex items-start gap-2 text-sm">
-                      <Badge variant="outline" className="font-mono text-xs">
-                        {item.component}
-                      </Badge>
-                      <span className="text-muted-foreground">
-                        {item.explanation}
-                      </span>
-                    </div>
-                  ))}
-                </div>
+                <Tabs defaultValue="tree" className="w-full">
+                  <TabsList className="grid w-full grid-cols-2">
+                    <TabsTrigger value="tree">Tree</TabsTrigger>
+                    <TabsTrigger value="diagram">Diagram</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="tree">
+                    <RegexExplanationTree nodes={explanation} />
+                  </TabsContent>
+                  <TabsContent value="diagram">
+                    {diagram && (
+                      <RegexRailroadDiagram
+                        diagram={diagram}
+                        onHover={highlightPattern}
+                      />
+                    )}
+                  </TabsContent>
+                </Tabs>
               ) : (
                 <p className="text-muted-foreground text-sm">
                   Enter a regex pattern to see its explanation
@@ -181,19 +410,68 @@ export function RegexValidator() {
 
         {/* Results Column */}
         <div className="space-y-6">
+          {replaceResult && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  <span className="flex items-center gap-2">
+                    <Replace className="h-4 w-4" />
+                    Replace Result
+                  </span>
+                  {replaceResult.isValid && (
+                    <Badge variant="secondary">
+                      {replaceResult.replacements.length} replacement
+                      {replaceResult.replacements.length !== 1 ? 's' : ''}
+                    </Badge>
+                  )}
+                </CardTitle>
+                <CardDescription>
+                  The test string with its matches replaced. Without the g flag
+                  only the first match is replaced.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {replaceResult.error ? (
+                  <p className="text-sm text-red-500 flex items-center gap-1">
+                    <AlertCircle className="h-3 w-3" />
+                    {replaceResult.error}
+                  </p>
+                ) : (
+                  <ReplacePreview result={replaceResult} />
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center justify-between">
                 <span>Match Results</span>
-                {testResult.isValid && (
-                  <Badge
-                    variant={
-                      testResult.matches.length > 0 ? 'default' : 'secondary'
-                    }
-                  >
-                    {testResult.matches.length} match
-                    {testResult.matches.length !== 1 ? 'es' : ''}
-                  </Badge>
+                {isMatching ? (
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary">
+                      <Loader2 className="animate-spin" />
+                      Matching…
+                    </Badge>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => cancelRunRef.current?.()}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                ) : (
+                  testResult.isValid && (
+                    <Badge
+                      variant={
+                        testResult.matches.length > 0 ? 'default' : 'secondary'
+                      }
+                    >
+                      {testResult.matches.length} match
+                      {testResult.matches.length !== 1 ? 'es' : ''}
+                    </Badge>
+                  )
                 )}
               </CardTitle>
               <CardDescription>
@@ -213,58 +491,32 @@ export function RegexValidator() {
                 <Label>Highlighted Text</Label>
                 <div className="p-3 border rounded-md bg-muted/50 font-mono text-sm whitespace-pre-wrap">
                   {highlights.length > 0 ? (
-                    highlights.map((segment, index) => (
-                      <span
-                        key={index}
-                        className={
-                          segment.isMatch
-                            ? 'bg-yellow-200 dark:bg-yellow-800 px-1 rounded'
-                            : ''
-                        }
-                      >
-                        {segment.text}
-                      </span>
-                    ))
+                    <HighlightedMatches
+                      segments={highlights}
+                      matches={testResult.matches}
+                    />
                   ) : (
                     <span className="text-muted-foreground">
                       No text to display
                     </span>
                   )}
                 </div>
+                {groupNames.length > 1 && (
+                  <p className="text-xs text-muted-foreground">
+                    Capture groups are color-coded and nested inside each match.
+                    Hover a highlight to see its group and offsets.
+                  </p>
+                )}
               </div>
 
               {/* Match Details */}
               {testResult.matches.length > 0 && (
                 <div className="space-y-2">
                   <Label>Match Details</Label>
-                  <div className="space-y-2 max-h-64 overflow-y-auto">
-                    {testResult.matches.map((match, index) => (
-                      <div key={index} className="p-2 border rounded text-sm">
-                        <div className="flex items-center justify-between mb-1">
-                          <span className="font-medium">Match {index + 1}</span>
-                          <Badge variant="outline" className="text-xs">
-                            Index: {match.index}
-                          </Badge>
-                        </div>
-                        <div className="font-mono text-xs bg-muted p-1 rounded">
-                          "{match[0]}"
-                        </div>
-                        {match.length > 1 && (
-                          <div className="mt-1 text-xs text-muted-foreground">
-                            Groups:{' '}
-                            {match
-                              .slice(1)
-                              .map((group, i) =>
-                                group !== undefined
-                                  ? `$${i + 1}: "${group}"`
-                                  : `$${i + 1}: undefined`
-                              )
-                              .join(', ')}
-                          </div>
-                        )}
-                      </div>
-                    ))}
-                  </div>
+                  <MatchGroupsTable
+                    matches={testResult.matches}
+                    groupNames={groupNames}
+                  />
                 </div>
               )}
             </CardContent>
@@ -0,0 +1,309 @@
+import { useState, useEffect } from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { AlertCircle, Copy, FileKey, RefreshCw } from 'lucide-react';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import {
+  oneDark,
+  oneLight,
+} from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { formatTimestamp } from '@/lib/jwt-utils';
+import {
+  decodeSamlMessage,
+  formatXml,
+  generateSampleSamlResponse,
+  lintSamlMessage,
+  type DecodedSamlMessage,
+  type SamlEncoding,
+} from '@/lib/saml-utils';
+import { SecurityFindings } from '@/components/security/SecurityFindings';
+import { SamlAssertionDetails } from '@/components/saml/SamlAssertionDetails';
+
+const ENCODING_LABELS: Record<SamlEncoding, string> = {
+  xml: 'Raw XML',
+  base64: 'Base64 (POST binding)',
+  deflate: 'Deflated (Redirect binding)',
+};
+
+export function SamlDecoder() {
+  const [message, setMessage] = useState('');
+  const [decoded, setDecoded] = useState<DecodedSamlMessage | null>(null);
+  const [error, setError] = useState('');
+  const [isDarkMode, setIsDarkMode] = useState(false);
+  const [currentTime, setCurrentTime] = useState(() => Date.now());
+
+  useEffect(() => {
+    // Check if dark mode is enabled
+    setIsDarkMode(document.documentElement.classList.contains('dark'));
+  }, []);
+
+  // Decoder logic
+  useEffect(() => {
+    if (!message.trim()) {
+      setDecoded(null);
+      setError('');
+      return;
+    }
+
+    let cancelled = false;
+    decodeSamlMessage(message)
+      .then(result => {
+        if (cancelled) return;
+        setDecoded(result.decoded ?? null);
+        setError(result.error || '');
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setDecoded(null);
+        setError(
+          err instanceof Error ? err.message : 'Failed to decode SAML message'
+        );
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [message]);
+
+  // Live clock for the expiry countdown
+  useEffect(() => {
+    if (!decoded) {
+      return;
+    }
+
+    setCurrentTime(Date.now());
+    const interval = setInterval(() => setCurrentTime(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [decoded]);
+
+  const copyToClipboard = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+    } catch (err) {
+      console.error('Failed to copy text: ', err);
+    }
+  };
+
+  const clock = () => currentTime;
+  const findings = decoded ? lintSamlMessage(decoded, clock) : [];
+  const prettyXml = decoded ? formatXml(decoded.xml) : '';
+
+  const messageRows = decoded
+    ? [
+        { label: 'ID', value: decoded.id },
+        {
+          label: 'Issue Instant',
+          value: decoded.issueInstant && formatTimestamp(decoded.issueInstant),
+        },
+        { label: 'Issuer', value: decoded.issuer },
+        { label: 'Destination', value: decoded.destination },
+        {
+          label: 'Assertion Consumer Service',
+          value: decoded.assertionConsumerServiceUrl,
+        },
+        { label: 'Status', value: decoded.statusCode?.split(':').pop() },
+      ].filter(row => row.value)
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold tracking-tight">SAML Decoder</h1>
+        <p className="text-muted-foreground">
+          Decode and inspect SAML 2.0 responses, assertions and authentication
+          requests from the POST and Redirect bindings.
+        </p>
+        <div className="p-3 bg-blue-50 dark:bg-blue-950/30 border border-blue-200 dark:border-blue-800 rounded-md text-sm">
+          <p className="text-blue-800 dark:text-blue-200">
+            <strong>
+              For your protection, all SAML decoding happens in the browser.
+            </strong>{' '}
+            Assertions can grant access to resources until they expire, so be
+            careful where you paste or share them.
+          </p>
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {/* Input Column */}
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <FileKey className="h-4 w-4" />
+                  SAML Message
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setMessage(generateSampleSamlResponse())}
+                >
+                  <RefreshCw className="h-3 w-3 mr-1" />
+                  Generate example
+                </Button>
+              </CardTitle>
+              <CardDescription>
+                Paste a SAMLResponse or SAMLRequest value, raw XML, or a
+                redirect URL carrying one. Deflated values are inflated
+                automatically.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Textarea
+                value={message}
+                onChange={e => setMessage(e.target.value)}
+                placeholder="PHNhbWxwOlJlc3BvbnNlIHhtbG5zOnNhbWxwPS..."
+                rows={8}
+                className={`font-mono text-sm ${error ? 'border-red-500' : decoded ? 'border-green-500' : ''}`}
+              />
+
+              {error && (
+                <div className="flex items-center gap-2 p-3 bg-red-50 dark:bg-red-950/30 border border-red-200 dark:border-red-800 rounded-md">
+                  <AlertCircle className="h-4 w-4 text-red-600 dark:text-red-400" />
+                  <span className="text-sm text-red-800 dark:text-red-200">
+                    {error}
+                  </span>
+                </div>
+              )}
+
+              {decoded && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="secondary">{decoded.messageType}</Badge>
+                  <Badge variant="outline">
+                    {ENCODING_LABELS[decoded.encoding]}
+                  </Badge>
+                  {decoded.hasSignatureElement && (
+                    <Badge variant="outline">
+                      Signature present (not verified)
+                    </Badge>
+                  )}
+                  <Badge variant="outline">
+                    {decoded.assertions.length} assertion
+                    {decoded.assertions.length === 1 ? '' : 's'}
+                  </Badge>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {decoded && (
+            <SecurityFindings
+              findings={findings}
+              description="Unsigned, expired and unrestricted assertions in this message. XML signatures are detected but not verified."
+            />
+          )}
+        </div>
+
+        {/* Output Column */}
+        <div className="space-y-6">
+          {decoded ? (
+            <Card>
+              <CardHeader>
+                <CardTitle>Decoded {decoded.messageType}</CardTitle>
+                <CardDescription>
+                  Times are shown in your local time zone
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Tabs defaultValue="summary" className="w-full">
+                  <TabsList className="grid w-full grid-cols-2">
+                    <TabsTrigger value="summary">Summary</TabsTrigger>
+                    <TabsTrigger value="xml">XML</TabsTrigger>
+                  </TabsList>
+
+                  <TabsContent value="summary" className="space-y-6">
+                    <div className="space-y-2">
+                      {messageRows.map(row => (
+                        <div
+                          key={row.label}
+                          className="flex justify-between gap-4 p-2 border rounded text-sm"
+                        >
+                          <span className="text-muted-foreground shrink-0">
+                            {row.label}:
+                          </span>
+                          <span className="font-mono text-right break-all">
+                            {row.value}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+
+                    {decoded.assertions.map((assertion, index) => (
+                      <div key={assertion.id ?? index} className="space-y-2">
+                        <h3 className="text-sm font-medium">
+                          Assertion
+                          {decoded.assertions.length > 1 && ` #${index + 1}`}
+                        </h3>
+                        <SamlAssertionDetails
+                          assertion={assertion}
+                          hasResponseSignature={decoded.hasSignatureElement}
+                          clock={clock}
+                        />
+                      </div>
+                    ))}
+
+                    {decoded.encryptedAssertionCount > 0 && (
+                      <p className="p-3 bg-muted/50 rounded-md text-sm text-muted-foreground">
+                        {decoded.encryptedAssertionCount} encrypted assertion
+                        {decoded.encryptedAssertionCount === 1
+                          ? ' is'
+                          : 's are'}{' '}
+                        not shown. They can only be read with the service
+                        provider's private key.
+                      </p>
+                    )}
+                  </TabsContent>
+
+                  <TabsContent value="xml" className="space-y-2">
+                    <div className="flex justify-end">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => copyToClipboard(prettyXml)}
+                      >
+                        <Copy className="h-3 w-3 mr-1" />
+                        Copy
+                      </Button>
+                    </div>
+                    <div className="border rounded-md overflow-hidden">
+                      <SyntaxHighlighter
+                        language="markup"
+                        style={isDarkMode ? oneDark : oneLight}
+                        customStyle={{
+                          margin: 0,
+                          fontSize: '0.875rem',
+                          maxHeight: '600px',
+                        }}
+                      >
+                        {prettyXml}
+                      </SyntaxHighlighter>
+                    </div>
+                  </TabsContent>
+                </Tabs>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardHeader>
+                <CardTitle>Decoded Message</CardTitle>
+                <CardDescription>
+                  Paste a SAML message to see its issuer, subject, conditions
+                  and attributes.
+                </CardDescription>
+              </CardHeader>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
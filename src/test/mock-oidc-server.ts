@@ -0,0 +1,215 @@
+/**
+ * Offline OpenID Connect provider used by the tests and the dev server.
+ * Serves a discovery document, a JWKS and an RFC 7662 introspection endpoint.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  SignJWT,
+  exportJWK,
+  generateKeyPair,
+  jwtVerify,
+  type CryptoKey,
+  type JWTPayload,
+} from 'jose';
+
+export interface MockOidcOptions {
+  issuer?: string;
+  basePath?: string;
+  clientId?: string;
+  clientSecret?: string;
+}
+
+export interface MockOidcProvider {
+  handle: (req: IncomingMessage, res: ServerResponse) => Promise<void>;
+  issueToken: (claims?: JWTPayload, expiresIn?: string) => Promise<string>;
+  revokeToken: (token: string) => void;
+}
+
+export interface MockOidcServer extends Omit<MockOidcProvider, 'handle'> {
+  url: string;
+  close: () => Promise<void>;
+}
+
+const KEY_ID = 'mock-oidc-key';
+
+/**
+ * Creates the request handler and signing key of a mock provider
+ * @param options - Issuer URL (default: taken from the Host header), mount path and accepted client credentials
+ * @returns The request handler and helpers to issue and revoke tokens
+ */
+export async function createMockOidcProvider(
+  options: MockOidcOptions = {}
+): Promise<MockOidcProvider> {
+  const basePath = options.basePath ?? '';
+  const { publicKey, privateKey } = await generateKeyPair('RS256', {
+    extractable: true,
+  });
+  const publicJwk = {
+    ...(await exportJWK(publicKey)),
+    kid: KEY_ID,
+    alg: 'RS256',
+    use: 'sig',
+  };
+  const revoked = new Set<string>();
+  let issuer = options.issuer ?? '';
+
+  const issueToken = (claims: JWTPayload = {}, expiresIn = '1h') =>
+    signToken(privateKey, issuer, claims, expiresIn);
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    issuer = options.issuer ?? `http://${req.headers.host}${basePath}`;
+    const path = new URL(req.url ?? '/', issuer).pathname.replace(basePath, '');
+
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader(
+      'Access-Control-Allow-Headers',
+      'Authorization, Content-Type'
+    );
+    if (req.method === 'OPTIONS') {
+      res.statusCode = 204;
+      res.end();
+      return;
+    }
+
+    if (req.method === 'GET' && path === '/.well-known/openid-configuration') {
+      sendJson(res, 200, {
+        issuer,
+        jwks_uri: `${issuer}/jwks`,
+        introspection_endpoint: `${issuer}/introspect`,
+        token_endpoint: `${issuer}/token`,
+        id_token_signing_alg_values_supported: ['RS256'],
+      });
+    } else if (req.method === 'GET' && path === '/jwks') {
+      sendJson(res, 200, { keys: [publicJwk] });
+    } else if (req.method === 'GET' && path === '/token') {
+      // Convenience endpoint for manual testing, not part of any spec
+      sendJson(res, 200, {
+        access_token: await issueToken({
+          sub: 'mock-user',
+          client_id: options.clientId ?? 'mock-client',
+          scope: 'openid profile',
+        }),
+        token_type: 'Bearer',
+      });
+    } else if (req.method === 'POST' && path === '/introspect') {
+      if (!isAuthorized(req, options)) {
+        sendJson(res, 401, { error: 'invalid_client' });
+        return;
+      }
+
+      const token = new URLSearchParams(await readBody(req)).get('token');
+      if (!token || revoked.has(token)) {
+        sendJson(res, 200, { active: false });
+        return;
+      }
+
+      try {
+        const { payload } = await jwtVerify(token, publicKey, { issuer });
+        sendJson(res, 200, { active: true, token_type: 'Bearer', ...payload });
+      } catch {
+        sendJson(res, 200, { active: false });
+      }
+    } else {
+      sendJson(res, 404, { error: 'not_found' });
+    }
+  };
+
+  return { handle, issueToken, revokeToken: token => revoked.add(token) };
+}
+
+/**
+ * Starts a mock provider on a local port
+ * @param options - Issuer URL (default: the server URL) and accepted client credentials
+ * @param port - Port to listen on (default: a free port)
+ * @returns The server URL and helpers to issue and revoke tokens
+ */
+export async function startMockOidcServer(
+  options: MockOidcOptions = {},
+  port: number = 0
+): Promise<MockOidcServer> {
+  const server = createServer();
+  await new Promise<void>(resolve => server.listen(port, '127.0.0.1', resolve));
+
+  // The issuer URL includes the port, which is only known once listening
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const provider = await createMockOidcProvider({ issuer: url, ...options });
+  server.on('request', (req, res) => {
+    provider.handle(req, res).catch(() => sendJson(res, 500, {}));
+  });
+
+  return {
+    url,
+    issueToken: provider.issueToken,
+    revokeToken: provider.revokeToken,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close(err => (err ? reject(err) : resolve()))
+      ),
+  };
+}
+
+/**
+ * Signs a token as the mock issuer
+ * @param privateKey - The provider signing key
+ * @param issuer - The issuer URL
+ * @param claims - Additional claims
+ * @param expiresIn - Lifetime such as "1h"
+ * @returns The signed token
+ */
+function signToken(
+  privateKey: CryptoKey,
+  issuer: string,
+  claims: JWTPayload,
+  expiresIn: string
+): Promise<string> {
+  return new SignJWT(claims)
+    .setProtectedHeader({ alg: 'RS256', kid: KEY_ID, typ: 'JWT' })
+    .setIssuer(issuer)
+    .setIssuedAt()
+    .setExpirationTime(expiresIn)
+    .sign(privateKey);
+}
+
+/**
+ * Checks HTTP Basic client authentication when credentials are configured
+ * @param req - The incoming request
+ * @param options - The accepted client credentials
+ * @returns Whether the client may call the introspection endpoint
+ */
+function isAuthorized(req: IncomingMessage, options: MockOidcOptions): boolean {
+  if (!options.clientId) {
+    return true;
+  }
+
+  const expected = Buffer.from(
+    `${encodeURIComponent(options.clientId)}:${encodeURIComponent(options.clientSecret ?? '')}`
+  ).toString('base64');
+  return req.headers.authorization === `Basic ${expected}`;
+}
+
+/**
+ * Reads a request body as text
+ * @param req - The incoming request
+ * @returns The body
+ */
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Sends a JSON response
+ * @param res - The server response
+ * @param status - HTTP status code
+ * @param body - The response body
+ */
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}
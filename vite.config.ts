@@ -2,11 +2,44 @@
 import path from 'path';
 import tailwindcss from '@tailwindcss/vite';
 import react from '@vitejs/plugin-react';
-import { defineConfig } from 'vite';
+import { defineConfig, type Plugin } from 'vite';
+
+/**
+ * Serves an offline OIDC provider at /mock-oidc for the JWT Decoder, when the
+ * dev server is started with MOCK_OIDC=1. The provider is a test fixture, so
+ * it is only loaded then.
+ */
+function mockOidcServer(): Plugin {
+  return {
+    name: 'mock-oidc-server',
+    apply: (_, { command }) =>
+      command === 'serve' && process.env.MOCK_OIDC === '1',
+    async configureServer(server) {
+      const { createMockOidcProvider } = await import(
+        './src/test/mock-oidc-server'
+      );
+      const provider = await createMockOidcProvider({
+        basePath: '/mock-oidc',
+      });
+      server.middlewares.use('/mock-oidc', (req, res) => {
+        provider.handle(req, res).catch(error => {
+          server.config.logger.error(
+            `[mock-oidc] ${error instanceof Error ? error.message : String(error)}`
+          );
+          if (!res.headersSent) {
+            res.statusCode = 500;
+            res.setHeader('Content-Type', 'application/json');
+          }
+          res.end(JSON.stringify({ error: 'server_error' }));
+        });
+      });
+    },
+  };
+}
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react(), tailwindcss()],
+  plugins: [react(), tailwindcss(), mockOidcServer()],
   server: {
     allowedHosts: true,
   },